@@ -1,50 +1,256 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import ArtFrame from './components/ArtFrame';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import ArtFrame, { ArtFrameCell } from './components/ArtFrame';
 import Controls from './components/Controls';
-import { AppConfig, FrameStyle, Genre, FilterPreset } from './types';
-import { generateArtImage } from './services/geminiService';
+import UpdatePrompt from './components/UpdatePrompt';
+import ActionHud, { ActionFeedback } from './components/ActionHud';
+import Caption from './components/Caption';
+import WidgetLayer from './components/WidgetLayer';
+import KioskUnlock from './components/KioskUnlock';
+import RatingPrompt from './components/RatingPrompt';
+import { AppConfig, ArtImage, CaptionPosition, FitMode, FrameStyle, Genre, FilterPreset, GestureAction, GestureType, GestureZone, ImageDisplaySettings, InputAction, KioskPermission, LayoutMode, Orientation, Profile, Rating, ScheduleOverrides, SequenceMode, SyncMode, SyncRole, TransitionEasing, TransitionEffect } from './types';
+import { ReadyImage, loadReadyImage, prepareImage } from './services/prefetch';
+import { SEQUENCE_CHOICES, takeNextReady } from './services/sequencing';
+import { addImages } from './services/libraryStore';
+import { createDefaultPlaylists, getActivePlaylist, getGenrePlaylistId, nextPlaylistItem } from './services/playlists';
+import { loadPersistedState, restoreHistory, restoreImage, savePersistedState, toStoredImage } from './services/persistence';
+import { TransitionDirection } from './services/transitions';
+import { applyOverrides, getActiveRules, mergeOverrides } from './services/schedule';
+import { getActiveFilter, getFilters } from './services/adjustments';
+import { getActiveFrame, withImageMatte } from './services/frames';
+import { ResolvedFit, getImageKey, resolveFit } from './services/fitting';
+import { getLayoutSpec } from './services/layouts';
+import { getFrameAspect, getRotation, getRotationStyle, isQuarterTurn, lockOrientation, rotateDirection } from './services/orientation';
+import { registerServiceWorker } from './services/serviceWorker';
+import { RemoteChannel, RemoteCommand, RemoteState, createPairingCode, openRemoteChannel, sanitizeRemotePatch } from './services/remote';
+import {
+  CLOCK_SYNC_MS, ClockSample, HEARTBEAT_MS, LEADER_TIMEOUT_MS, SYNC_LEAD_MS, SyncChannel, SyncMessage, SyncShow,
+  addClockSample, createSessionId, estimateClockOffset, getPanoramaFit, getSyncedImage, normalizeGroupName, openSyncChannel, toSharedImage,
+} from './services/sync';
+import { ARROW_DIRECTIONS, BACK_TOKENS, bindToken, findAction, getBindings, isNativeArrow, isTextEntry, moveFocusSpatially, startGamepadPolling, toInputToken } from './services/input';
+import { attachGestureRecognizer, findGestureAction, getGestureBindings, isInputAction } from './services/gestures';
+import { hasCaption } from './services/metadata';
+import { capBrightness, getPixelShift, getShiftStyle, measureImageLuminance } from './services/displayCare';
+import { MAX_PIN_ATTEMPTS, PIN_LOCKOUT_MS, UNLOCK_SEQUENCE, ZonePress, completesUnlockSequence, getRevertedConfig, isPermitted } from './services/kiosk';
+import { applyProfile, createProfile, fetchProfile, findProfile, upsertProfile } from './services/profiles';
+import { Ratings, getRating, getRatingWeight, nextFavorite, pickFavoriteReplay, rateImage } from './services/ratings';
+import { EMPTY_HISTORY, HistoryState, canGoForward, filterHistory, getCurrentImage, goBack, goForward, jumpTo, pushImage, trimHistory } from './services/history';
+
+// Wait before trying again when every provider in the chain failed, doubling up to the max
+const RETRY_DELAY_MS = 15000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+// How long Ken Burns keeps moving when the slideshow is off
+const STILL_DISPLAY_MS = 60000;
+// Schedule windows are minute based; check a bit more often than that
+const SCHEDULE_TICK_MS = 20000;
+// Batch rapid config changes (e.g. brightness swipes) into one storage write
+const SAVE_DELAY_MS = 500;
+// Recent images kept per extra layout cell
+const CELL_QUEUE_SIZE = 5;
+// Brightness change per key press, within the range of the drag gesture
+const BRIGHTNESS_STEP = 0.1;
+const MIN_BRIGHTNESS = 0.1;
+const MAX_BRIGHTNESS = 2.0;
+// Menu opened by a tap hides itself after this long unless it is used
+const CONTROLS_HIDE_MS = 4000;
+// How long the brightness level and similar feedback stay on screen
+const FEEDBACK_MS = 1200;
+// A caption asked for while captions are off hides again after this
+const CAPTION_ON_REQUEST_MS = 15000;
+// How often a kiosk checks whether it has been idle long enough to revert
+const KIOSK_IDLE_CHECK_MS = 15000;
+
+const RATING_FEEDBACK: Record<Rating, string> = {
+  [Rating.Like]: 'Liked',
+  [Rating.Dislike]: 'Disliked',
+  [Rating.Ban]: 'Never Shown Again',
+};
 
 const INITIAL_CONFIG: AppConfig = {
-  genre: Genre.Nature,
+  playlistId: getGenrePlaylistId(Genre.Nature),
+  playlists: createDefaultPlaylists(),
   interval: 30,
   isSlideshow: false, // Default to single image mode
-  frameStyle: FrameStyle.None,
-  filterPreset: FilterPreset.Original,
-  frameWidth: 20, // Default frame width in pixels
-  brightness: 1.0 // Default brightness
+  frameId: FrameStyle.None,
+  customFrames: [],
+  filterId: FilterPreset.Original,
+  customFilters: [],
+  brightness: 1.0, // Default brightness
+  historySize: 50,
+  prefetchCount: 2,
+  transitionEffect: TransitionEffect.Crossfade,
+  transitionDuration: 1000,
+  transitionEasing: TransitionEasing.EaseInOut,
+  fitMode: FitMode.Auto,
+  layout: LayoutMode.Single,
+  sequenceMode: SequenceMode.Random,
+  dynamicMatte: false,
+  orientation: Orientation.Auto,
+  scheduleEnabled: true,
+  schedule: [],
+  remoteEnabled: false,
+  remoteCode: createPairingCode(),
+  relayUrl: '',
+  syncRole: SyncRole.Off,
+  syncGroup: 'living-room',
+  syncMode: SyncMode.Mirror,
+  syncPanels: 2,
+  syncPosition: 0,
+  keyBindings: {},
+  gestureBindings: {},
+  captionEnabled: false,
+  captionPosition: CaptionPosition.BottomLeft,
+  captionHideAfter: 10,
+  captionQrCode: true,
+  widgets: {},
+  weatherUrl: '',
+  calendarUrl: '',
+  calendarFileName: '',
+  pixelShift: 0,
+  maxDwell: 0,
+  blackRefreshInterval: 0,
+  blackRefreshDuration: 10,
+  luminanceCap: 1,
+  kioskEnabled: false,
+  kioskPin: '',
+  kioskAllowed: [KioskPermission.Navigate],
+  kioskRevertAfter: 10
 };
 
-const App: React.FC = () => {
-  const [config, setConfig] = useState<AppConfig>(INITIAL_CONFIG);
-  const [currentImage, setCurrentImage] = useState<string | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
+interface AppProps {
+  startProfile: string | null; // name of a saved profile or URL of a profile file
+}
+
+const App: React.FC<AppProps> = ({ startProfile }) => {
+  // Saved state from the last session, read once on mount
+  const [persisted] = useState(() => loadPersistedState(INITIAL_CONFIG));
+
+  const [config, setConfig] = useState<AppConfig>(persisted.config);
+  const [loading, setLoading] = useState<boolean>(persisted.history.images.length === 0);
   const [showControls, setShowControls] = useState<boolean>(false);
 
-  // Image history for back/forward navigation
-  const [imageHistory, setImageHistory] = useState<string[]>([]);
-  const [historyIndex, setHistoryIndex] = useState<number>(-1);
+  // Image history for back/forward navigation; the current image is part of it
+  const [history, setHistory] = useState<HistoryState>(persisted.history);
+  // Likes, dislikes and bans by getImageKey; liked images are the favorites
+  const [ratings, setRatings] = useState<Ratings>(persisted.ratings);
+  const [ratingPromptOpen, setRatingPromptOpen] = useState<boolean>(false);
+  const [profiles, setProfiles] = useState<Profile[]>(persisted.profiles);
+  const [imageSettings, setImageSettings] = useState<Record<string, ImageDisplaySettings>>(persisted.imageSettings);
+  // Settings a locked kiosk returns to, taken whenever it locks
+  const [lockedConfig, setLockedConfig] = useState<AppConfig | null>(persisted.lockedConfig);
+  const [viewportAspect, setViewportAspect] = useState<number>(() => window.innerWidth / window.innerHeight);
+  // Which way the last navigation went, so slide transitions move the right way
+  const [direction, setDirection] = useState<TransitionDirection>(1);
+  const [online, setOnline] = useState<boolean>(() => navigator.onLine);
+  // Activates a waiting service worker; set while an update is available
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+
+  // Extra cells of multi-image layouts (cell 0 is the history above), newest image last
+  const [cellQueues, setCellQueues] = useState<ArtImage[][]>([]);
+
+  const currentImage = getCurrentImage(history);
+
+  // --- SCHEDULE ---
+  const [now, setNow] = useState<Date>(() => new Date());
+  // Fields changed by hand while the current rules are active; reset when the rules change
+  const [pausedOverrides, setPausedOverrides] = useState<{ rules: string; fields: (keyof ScheduleOverrides)[] }>({ rules: '', fields: [] });
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), SCHEDULE_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const activeRules = useMemo(
+    () => (config.scheduleEnabled ? getActiveRules(config.schedule, now) : []),
+    [config.scheduleEnabled, config.schedule, now]
+  );
+  const activeRulesKey = activeRules.map(rule => rule.id).join(',');
+  const overrides = useMemo(() => mergeOverrides(activeRules), [activeRules]);
+  const sleeping = Boolean(overrides.sleep);
+
+  // The config as currently shown: saved settings with the active schedule applied
+  const displayConfig = useMemo(
+    () => applyOverrides(config, overrides, pausedOverrides.rules === activeRulesKey ? pausedOverrides.fields : []),
+    [config, overrides, pausedOverrides, activeRulesKey]
+  );
+
+  const activePlaylist = getActivePlaylist(displayConfig);
+  const activeInterval = activePlaylist.interval ?? config.interval;
+
+  // Displays mounted sideways, or forced orientations the device won't lock to, turn the picture in software
+  const rotation = getRotation(config.orientation, viewportAspect);
+  // Aspect ratio of the picture as seen, after that rotation
+  const screenAspect = getFrameAspect(viewportAspect, rotation);
+
+  useEffect(() => lockOrientation(config.orientation), [config.orientation]);
+
+  const portrait = screenAspect < 1;
+  const layoutSpec = useMemo(() => getLayoutSpec(config.layout, portrait), [config.layout, portrait]);
+  const cellCount = layoutSpec.cells.length;
+
+  // --- SYNC GROUP STATE ---
+  const syncGroup = normalizeGroupName(config.syncGroup);
+  const isLeader = config.syncRole === SyncRole.Leader && syncGroup !== '';
+  const isFollower = config.syncRole === SyncRole.Follower && syncGroup !== '';
+  const [leaderPresent, setLeaderPresent] = useState<boolean>(true);
+  // A follower without a leader falls back to its own slideshow until the leader is back
+  const followingLeader = isFollower && leaderPresent;
+  // Panorama slices override the normal fit of the main image
+  const [syncFit, setSyncFit] = useState<ResolvedFit | null>(null);
+
+  // A panorama leader fetches one image as wide as the whole group
+  const panoramaPanels = isLeader && config.syncMode === SyncMode.Panorama ? config.syncPanels : 1;
+  const mainFraction = useMemo(
+    () => ({ x: layoutSpec.cells[0].fraction.x * panoramaPanels, y: layoutSpec.cells[0].fraction.y }),
+    [layoutSpec, panoramaPanels]
+  );
 
   // Refs for timers and wake lock
   const slideshowTimerRef = useRef<number | null>(null);
   const controlsTimerRef = useRef<number | null>(null);
   const wakeLockRef = useRef<WakeLockSentinel | null>(null);
   const isGeneratingRef = useRef<boolean>(false);
+  const retryTimerRef = useRef<number | null>(null);
+  const retryDelayRef = useRef<number>(RETRY_DELAY_MS);
+  const prefetchRef = useRef<{ images: ReadyImage[]; filling: boolean }>({ images: [], filling: false });
+  const saveTimerRef = useRef<number | null>(null);
+  const sleepingRef = useRef<boolean>(sleeping);
+  sleepingRef.current = sleeping;
+  // Latest history for callbacks that must not be recreated on every navigation
+  const historyRef = useRef<HistoryState>(history);
+  historyRef.current = history;
+  // Read when fetching, so a ban counts for the very next image
+  const ratingsRef = useRef<Ratings>(ratings);
+  ratingsRef.current = ratings;
+  const cellQueuesRef = useRef<ArtImage[][]>(cellQueues);
+  cellQueuesRef.current = cellQueues;
+  // Extra cells with a request in flight
+  const busyCellsRef = useRef<Set<number>>(new Set());
 
-  // Double-tap detection
-  const lastTapTimeRef = useRef<number>(0);
-  const lastTapSideRef = useRef<'left' | 'right' | null>(null);
-  const singleTapTimerRef = useRef<number | null>(null);
+  // Sync group bookkeeping; refs because the channel outlives renders
+  const syncChannelRef = useRef<SyncChannel | null>(null);
+  const syncSessionRef = useRef<string>(createSessionId());
+  const syncSeqRef = useRef<number>(0);
+  const lastShowRef = useRef<SyncShow | null>(null); // leader: repeated as heartbeat
+  const appliedShowRef = useRef<{ session: string; seq: number } | null>(null); // follower
+  const lastShownKeyRef = useRef<string | null>(null);
+  const syncDisplayTimerRef = useRef<number | null>(null);
+  const clockSamplesRef = useRef<ClockSample[]>([]);
+  const lastLeaderSeenRef = useRef<number>(0);
 
-  // Swipe gesture for brightness
-  const touchStartRef = useRef<{ x: number, y: number } | null>(null);
-  const initialBrightnessRef = useRef<number>(1.0);
-  const isSwipingRef = useRef<boolean>(false);
+  // Gestures are recognized on the root element
+  const rootRef = useRef<HTMLDivElement>(null);
+  const feedbackTimerRef = useRef<number | null>(null);
+  const [feedback, setFeedback] = useState<ActionFeedback | null>(null);
 
   // --- WAKE LOCK (Keep Screen On) ---
   const requestWakeLock = useCallback(async () => {
     try {
-      if ('wakeLock' in navigator && !wakeLockRef.current) {
+      // During scheduled sleep the screen is allowed to turn off
+      if ('wakeLock' in navigator && !wakeLockRef.current && !sleepingRef.current) {
         wakeLockRef.current = await navigator.wakeLock.request('screen');
+        wakeLockRef.current.addEventListener('release', () => {
+          wakeLockRef.current = null;
+        });
       }
     } catch (err) {
       // Wake lock might be blocked by policy or battery saver
@@ -70,79 +276,284 @@ const App: React.FC = () => {
     };
   }, [requestWakeLock]);
 
+  useEffect(() => {
+    if (sleeping) {
+      wakeLockRef.current?.release();
+      wakeLockRef.current = null;
+    } else {
+      requestWakeLock();
+    }
+  }, [sleeping, requestWakeLock]);
+
+  // --- PERSISTENCE ---
+  useEffect(() => {
+    // Library images come back with dead object URLs: resolve them again, dropping deleted ones
+    const restore = async () => {
+      const restored = await restoreHistory(persisted.history);
+      // Keep navigation that happened while restoring
+      setHistory(current => (current === persisted.history ? restored : current));
+    };
+    restore().catch(error => {
+      // Library unreadable (IndexedDB blocked or failing): start over rather than show dead links
+      console.error('Could not restore history:', error);
+      setHistory(current => (current === persisted.history ? EMPTY_HISTORY : current));
+    });
+  }, [persisted]);
+
+  useEffect(() => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(() => {
+      savePersistedState({ config, history, ratings, imageSettings, profiles, lockedConfig });
+    }, SAVE_DELAY_MS);
+
+    return () => {
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    };
+  }, [config, history, ratings, imageSettings, profiles, lockedConfig]);
+
   // --- IMAGE LOADING LOGIC ---
+  // Rated images are restored from storage (library object URLs), cached and decoded again
+  const loadRatedImage = useCallback(async (image: ArtImage): Promise<ReadyImage | null> => {
+    const restored = await restoreImage(image);
+    return restored ? prepareImage(restored) : null;
+  }, []);
+
+  // Fetches, caches and decodes the next playlist image, sized for the given layout cell.
+  // Liked images come up more often and now and then return; banned ones never do.
+  const fetchReadyImage = useCallback(async (cell: number): Promise<ReadyImage | null> => {
+    const ratings = ratingsRef.current;
+    if (activePlaylist.favoritesOnly) {
+      const favorite = nextFavorite(ratings, activePlaylist);
+      return favorite ? loadRatedImage(favorite) : null;
+    }
+
+    const shown = getCurrentImage(historyRef.current);
+    const replay = pickFavoriteReplay(ratings, activePlaylist.id, shown && getImageKey(shown));
+    const replayed = replay ? await loadRatedImage(replay) : null;
+    if (replayed) return replayed;
+
+    const next = nextPlaylistItem(activePlaylist);
+    return next
+      ? loadReadyImage(next.item, activePlaylist.name, {
+          sequence: next.sequence,
+          fraction: cell === 0 ? mainFraction : layoutSpec.cells[cell]?.fraction,
+          quarterTurn: isQuarterTurn(rotation),
+          weightOf: key => getRatingWeight(ratings, key),
+        })
+      : null;
+  }, [activePlaylist, layoutSpec, mainFraction, rotation, loadRatedImage]);
+
+  // Images fetched ahead for the current playlist and size; replaced, not refilled, when either changes
+  const resetPrefetchQueue = useCallback(() => {
+    prefetchRef.current = { images: [], filling: false };
+  }, []);
+
+  useEffect(() => resetPrefetchQueue(), [activePlaylist, mainFraction, rotation, resetPrefetchQueue]);
+
+  // Shows the image a sync group agreed on; panorama frames show their own slice of it
+  const showSyncedImage = useCallback((image: ArtImage, show: SyncShow) => {
+    lastShownKeyRef.current = getImageKey(image);
+    setHistory(prev => pushImage(prev, image, config.historySize));
+    setDirection(1);
+    setSyncFit(show.mode === SyncMode.Panorama ? getPanoramaFit(config.syncPosition, show.panels) : null);
+    setLoading(false);
+  }, [config.historySize, config.syncPosition]);
+
+  // Leader: announces a change to the followers; `showAt` is on the leader's clock
+  const publishShow = useCallback((images: ArtImage[], showAt: number): SyncShow => {
+    const show: SyncShow = {
+      session: syncSessionRef.current,
+      seq: ++syncSeqRef.current,
+      mode: config.syncMode,
+      panels: config.syncMode === SyncMode.Mirror ? 1 : config.syncPanels,
+      images: images.map(toSharedImage).filter((image): image is ArtImage => image !== null),
+      showAt,
+    };
+    lastShowRef.current = show;
+    syncChannelRef.current?.send({ type: 'show', show });
+    return show;
+  }, [config.syncMode, config.syncPanels]);
+
+  const fillPrefetchQueue = useCallback(async () => {
+    const queue = prefetchRef.current;
+    if (queue.filling) return;
+    queue.filling = true;
+
+    // Sequencing modes need a few images to choose from
+    const size = config.sequenceMode === SequenceMode.Random ? config.prefetchCount : Math.max(config.prefetchCount, SEQUENCE_CHOICES);
+    while (prefetchRef.current === queue && queue.images.length < size) {
+      const ready = await fetchReadyImage(0);
+      if (!ready) break;
+      if (prefetchRef.current === queue) queue.images.push(ready);
+    }
+    queue.filling = false;
+  }, [config.prefetchCount, config.sequenceMode, fetchReadyImage]);
+
   const loadNewImage = useCallback(async () => {
-    if (isGeneratingRef.current) return;
+    // Followers get their images from the leader
+    if (isGeneratingRef.current || followingLeader) return;
     isGeneratingRef.current = true;
     setLoading(true);
 
-    // Call the service which now strictly uses Stock photos (No API)
-    const imageUrl = await generateArtImage(config.genre);
-
-    if (imageUrl) {
-      // Preload image object to ensure smooth transition
-      const img = new Image();
-      img.src = imageUrl;
-      img.onload = () => {
-        setCurrentImage((prevImage) => {
-          if (prevImage) {
-            // Update history: truncate any forward history if we were in the middle
-            setImageHistory(prev => {
-              const newHistory = prev.slice(0, historyIndex + 1);
-              return [...newHistory, prevImage];
-            });
-            setHistoryIndex(prev => prev + 1);
-          }
-          return imageUrl;
-        });
-        setLoading(false);
-        isGeneratingRef.current = false;
-      };
-      img.onerror = () => {
-        setLoading(false);
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+
+    const ready = takeNextReady(prefetchRef.current.images, getCurrentImage(historyRef.current), config.sequenceMode, new Date())
+      ?? await fetchReadyImage(0);
+
+    if (ready && isLeader) {
+      // Sequence mode needs one image per frame; the extra ones load side by side
+      const extra = config.syncMode === SyncMode.Sequence
+        ? await Promise.all(Array.from({ length: config.syncPanels - 1 }, () => fetchReadyImage(0)))
+        : [];
+      const images = [ready, ...extra.filter((image): image is ReadyImage => image !== null)].map(({ image }) => image);
+
+      // Everyone changes at the same moment, after giving followers time to load
+      const show = publishShow(images, Date.now() + SYNC_LEAD_MS);
+      if (syncDisplayTimerRef.current) clearTimeout(syncDisplayTimerRef.current);
+      syncDisplayTimerRef.current = window.setTimeout(() => {
+        syncDisplayTimerRef.current = null;
+        const own = config.syncMode === SyncMode.Sequence ? images[config.syncPosition % images.length] : images[0];
+        showSyncedImage(own, show);
         isGeneratingRef.current = false;
-      };
+        fillPrefetchQueue();
+      }, SYNC_LEAD_MS);
+      retryDelayRef.current = RETRY_DELAY_MS;
+    } else if (ready) {
+      // Drops any forward history, like a browser does after navigating back
+      setHistory(prev => pushImage(prev, ready.image, config.historySize));
+      setDirection(1);
+      setLoading(false);
+      isGeneratingRef.current = false;
+      retryDelayRef.current = RETRY_DELAY_MS;
+      fillPrefetchQueue();
     } else {
+      // Every provider failed (e.g. offline): stop "curating" and try again later, waiting longer each time
       setLoading(false);
       isGeneratingRef.current = false;
+      const delay = retryDelayRef.current;
+      retryDelayRef.current = Math.min(delay * 2, MAX_RETRY_DELAY_MS);
+      retryTimerRef.current = window.setTimeout(() => {
+        retryTimerRef.current = null;
+        loadNewImage();
+      }, delay);
     }
 
-  }, [config.genre, historyIndex]);
+  }, [config.historySize, config.sequenceMode, config.syncMode, config.syncPanels, config.syncPosition, fetchReadyImage, fillPrefetchQueue, followingLeader, isLeader, publishShow, showSyncedImage]);
+
+  // Extra cells skip history and the prefetch queue and just keep their last few images.
+  // A failed request is left to the cell's next tick rather than retried on its own.
+  const loadCellImage = useCallback(async (cell: number) => {
+    if (busyCellsRef.current.has(cell)) return;
+    busyCellsRef.current.add(cell);
+
+    const ready = await fetchReadyImage(cell);
+    busyCellsRef.current.delete(cell);
+    if (!ready) return;
+
+    setCellQueues(prev => {
+      const queues = [...prev];
+      queues[cell - 1] = [...(queues[cell - 1] ?? []), ready.image].slice(-CELL_QUEUE_SIZE);
+      return queues;
+    });
+  }, [fetchReadyImage]);
+
+  useEffect(() => {
+    return () => {
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    };
+  }, []);
+
+  // --- OFFLINE & UPDATES ---
+  useEffect(() => {
+    registerServiceWorker(apply => setApplyUpdate(() => apply));
+
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Back online: retry right away instead of waiting out the backoff
+  useEffect(() => {
+    if (!online || !retryTimerRef.current) return;
+    clearTimeout(retryTimerRef.current);
+    retryTimerRef.current = null;
+    retryDelayRef.current = RETRY_DELAY_MS;
+    loadNewImage();
+  }, [online, loadNewImage]);
+
+  // Only the latest cached copies keep an object URL, so an older entry gets a fresh one first
+  const moveInHistory = useCallback(async (move: (history: HistoryState) => HistoryState) => {
+    const target = getCurrentImage(move(historyRef.current));
+    const restored = target && (await restoreImage(target));
+    setHistory(prev => move(restored
+      ? { ...prev, images: prev.images.map(image => (image === target ? restored : image)) }
+      : prev));
+  }, []);
 
   const loadPreviousImage = useCallback(() => {
-    if (historyIndex >= 0 && imageHistory.length > 0) {
-      const prevImage = imageHistory[historyIndex];
-
-      // Save current image to history for forward navigation (technically simply not removing it allows "forward" if we implemented it, 
-      // but here we just want to go back. For full browser-like history, we'd need more complex index management).
-      // For this simple "Back" feature:
-
-      setCurrentImage((current) => {
-        // Push current back to potential "next" slot if we wanted a redo, 
-        // but simple "back" just swaps. 
-        // Actually, standard history: current becomes "next", history[index] becomes current.
-        return prevImage;
-      });
+    setDirection(-1);
+    moveInHistory(goBack);
+  }, [moveInHistory]);
 
-      setHistoryIndex(prev => prev - 1);
+  // Walks forward through history first and only fetches once at the newest image
+  const loadNextImage = useCallback(() => {
+    if (canGoForward(historyRef.current)) {
+      setDirection(1);
+      moveInHistory(goForward);
+    } else if (followingLeader) {
+      syncChannelRef.current?.send({ type: 'advance' });
+    } else {
+      loadNewImage();
     }
-  }, [historyIndex, imageHistory]);
+  }, [loadNewImage, followingLeader, moveInHistory]);
+
+  const jumpToImage = useCallback((index: number) => {
+    setDirection(index < historyRef.current.index ? -1 : 1);
+    moveInHistory(prev => jumpTo(prev, index));
+  }, [moveInHistory]);
+
+  // Apply a smaller history size right away instead of on the next push
+  useEffect(() => {
+    setHistory(prev => trimHistory(prev, config.historySize));
+  }, [config.historySize]);
+
+  // Switching playlists shows an image from the new playlist right away
+  const playlistIdRef = useRef<string>(displayConfig.playlistId);
+  useEffect(() => {
+    if (playlistIdRef.current === displayConfig.playlistId) return;
+    playlistIdRef.current = displayConfig.playlistId;
+    if (sleeping) return;
+    loadNewImage();
+    for (let cell = 1; cell < cellCount; cell++) loadCellImage(cell);
+  }, [displayConfig.playlistId, sleeping, loadNewImage, loadCellImage, cellCount]);
 
   // --- SLIDESHOW TIMER & INITIAL LOAD ---
   useEffect(() => {
+    // Nothing is shown during scheduled sleep, so nothing needs loading;
+    // a follower's timing comes from its leader
+    if (sleeping || followingLeader) return;
+
     // Trigger initial load if no image is present, regardless of slideshow setting
     if (!currentImage && !isGeneratingRef.current) {
       loadNewImage();
     }
 
-    if (config.isSlideshow) {
+    if (displayConfig.isSlideshow) {
       // Clear existing
       if (slideshowTimerRef.current) clearInterval(slideshowTimerRef.current);
 
       // Set interval
       slideshowTimerRef.current = window.setInterval(() => {
-        loadNewImage();
-      }, config.interval * 1000);
+        loadNextImage();
+      }, activeInterval * 1000);
     } else {
       if (slideshowTimerRef.current) clearInterval(slideshowTimerRef.current);
     }
@@ -150,68 +561,165 @@ const App: React.FC = () => {
     return () => {
       if (slideshowTimerRef.current) clearInterval(slideshowTimerRef.current);
     };
-  }, [config.isSlideshow, config.interval, config.genre, loadNewImage, currentImage]);
+  }, [displayConfig.isSlideshow, sleeping, followingLeader, activeInterval, loadNewImage, loadNextImage, currentImage]);
 
+  // --- SYNC GROUP ---
+  // Follower: loads the image ahead of time, then shows it when the leader's clock says so
+  const followShow = async (show: SyncShow) => {
+    const applied = appliedShowRef.current;
+    if (applied && applied.session === show.session && applied.seq >= show.seq) return;
+    appliedShowRef.current = { session: show.session, seq: show.seq };
 
-  // --- USER INTERACTION ---
-  const handleInteraction = (e: React.MouseEvent) => {
-    // Ensure screen stays on
-    requestWakeLock();
+    const image = getSyncedImage(show, config.syncPosition);
+    const ready = image ? await prepareImage(image) : null;
+    // Skipped when a newer show arrived while this one was loading
+    if (!ready || appliedShowRef.current.seq !== show.seq || appliedShowRef.current.session !== show.session) return;
 
-    e.persist();
-    const clientX = e.clientX;
-    const width = window.innerWidth;
-    let side: 'left' | 'right' | 'center' = 'center';
+    const delay = show.showAt - estimateClockOffset(clockSamplesRef.current) - Date.now();
+    if (syncDisplayTimerRef.current) clearTimeout(syncDisplayTimerRef.current);
+    syncDisplayTimerRef.current = window.setTimeout(() => {
+      syncDisplayTimerRef.current = null;
+      showSyncedImage(ready.image, show);
+    }, Math.max(0, delay));
+  };
 
-    if (clientX < width * 0.35) side = 'left';
-    else if (clientX > width * 0.65) side = 'right';
+  const handleSyncMessage = (message: SyncMessage) => {
+    if (isLeader) {
+      switch (message.type) {
+        case 'join':
+          if (lastShowRef.current) syncChannelRef.current?.send({ type: 'show', show: lastShowRef.current });
+          break;
+        case 'advance':
+          loadNextImage();
+          break;
+        case 'ping':
+          syncChannelRef.current?.send({ type: 'pong', to: message.from, sentAt: message.sentAt, leaderTime: Date.now() });
+          break;
+      }
+    } else if (isFollower) {
+      if (message.type === 'show') {
+        lastLeaderSeenRef.current = Date.now();
+        // Back from playing alone: take the leader's current image even if it was shown before
+        if (!leaderPresent) appliedShowRef.current = null;
+        setLeaderPresent(true);
+        followShow(message.show);
+      } else if (message.type === 'pong' && message.to === syncSessionRef.current) {
+        lastLeaderSeenRef.current = Date.now();
+        clockSamplesRef.current = addClockSample(clockSamplesRef.current, message.sentAt, message.leaderTime, Date.now());
+      }
+    }
+  };
+  const syncHandlerRef = useRef(handleSyncMessage);
+  syncHandlerRef.current = handleSyncMessage;
 
-    const currentTime = new Date().getTime();
-    const tapLength = currentTime - lastTapTimeRef.current;
+  useEffect(() => {
+    if (!isLeader && !isFollower) {
+      setSyncFit(null);
+      return;
+    }
 
-    // Check if this is a Double Tap
-    if (tapLength < 300 && tapLength > 0 && lastTapSideRef.current === side && side !== 'center') {
-      // Double Tap Detected!
-      if (singleTapTimerRef.current) {
-        clearTimeout(singleTapTimerRef.current);
-        singleTapTimerRef.current = null;
-      }
+    const channel = openSyncChannel(syncGroup, config.relayUrl, message => syncHandlerRef.current(message));
+    syncChannelRef.current = channel;
+    const intervals: number[] = [];
 
-      // Execute Action
-      if (side === 'right') {
-        loadNewImage();
-      } else if (side === 'left') {
-        loadPreviousImage();
+    if (isLeader) {
+      // Repeating the current show lets followers join or rejoin at any time
+      intervals.push(window.setInterval(() => {
+        if (lastShowRef.current) channel.send({ type: 'show', show: lastShowRef.current });
+      }, HEARTBEAT_MS));
+    } else {
+      clockSamplesRef.current = [];
+      appliedShowRef.current = null;
+      lastLeaderSeenRef.current = Date.now();
+      // Clocks drift, so the offset to the leader is measured again and again
+      const probe = () => channel.send({ type: 'ping', from: syncSessionRef.current, sentAt: Date.now() });
+      channel.send({ type: 'join' });
+      probe();
+      intervals.push(window.setInterval(probe, CLOCK_SYNC_MS));
+      intervals.push(window.setInterval(() => {
+        setLeaderPresent(Date.now() - lastLeaderSeenRef.current < LEADER_TIMEOUT_MS);
+      }, HEARTBEAT_MS));
+    }
+
+    return () => {
+      intervals.forEach(timer => clearInterval(timer));
+      if (syncDisplayTimerRef.current) {
+        clearTimeout(syncDisplayTimerRef.current);
+        syncDisplayTimerRef.current = null;
+        // A leader's announced image never gets shown; let the next load go ahead
+        if (isLeader) isGeneratingRef.current = false;
       }
+      channel.close();
+      syncChannelRef.current = null;
+      setLeaderPresent(true);
+    };
+  }, [isLeader, isFollower, syncGroup, config.relayUrl]);
 
-      // Reset
-      lastTapTimeRef.current = 0;
-      lastTapSideRef.current = null;
-    } else {
-      // Potential Single Tap
-      lastTapTimeRef.current = currentTime;
-      lastTapSideRef.current = side;
-
-      // Clear any existing timer just in case
-      if (singleTapTimerRef.current) clearTimeout(singleTapTimerRef.current);
-
-      // Set timer for Single Tap Action
-      singleTapTimerRef.current = window.setTimeout(() => {
-        // Single Tap Action: Toggle/Close Menu
-        if (showControls) {
-          setShowControls(false);
-        } else {
-          setShowControls(true);
-
-          // Auto hide logic for new controls display
-          if (controlsTimerRef.current) clearTimeout(controlsTimerRef.current);
-          controlsTimerRef.current = window.setTimeout(() => {
-            setShowControls(false);
-          }, 4000);
-        }
-        singleTapTimerRef.current = null;
-      }, 300);
+  // A leader's own back/forward in mirror mode takes the followers along, without lead time
+  useEffect(() => {
+    if (!isLeader || config.syncMode !== SyncMode.Mirror || !currentImage) return;
+    const key = getImageKey(currentImage);
+    if (key === lastShownKeyRef.current) return;
+    lastShownKeyRef.current = key;
+    publishShow([currentImage], Date.now());
+  }, [currentImage, isLeader, config.syncMode, publishShow]);
+
+  // --- LAYOUT CELLS ---
+  useEffect(() => {
+    setCellQueues(prev => (prev.length > cellCount - 1 ? prev.slice(0, cellCount - 1) : prev));
+    if (sleeping) return;
+
+    for (let cell = 1; cell < cellCount; cell++) {
+      if (!cellQueuesRef.current[cell - 1]?.length) loadCellImage(cell);
     }
+    if (!displayConfig.isSlideshow) return;
+
+    // Each cell runs on the slideshow interval, offset so the images change one at a time
+    const period = activeInterval * 1000;
+    const timeouts: number[] = [];
+    const intervals: number[] = [];
+    for (let cell = 1; cell < cellCount; cell++) {
+      timeouts.push(window.setTimeout(() => {
+        loadCellImage(cell);
+        intervals.push(window.setInterval(() => loadCellImage(cell), period));
+      }, (period * cell) / cellCount));
+    }
+
+    return () => {
+      timeouts.forEach(timer => clearTimeout(timer));
+      intervals.forEach(timer => clearInterval(timer));
+    };
+  }, [cellCount, sleeping, displayConfig.isSlideshow, activeInterval, loadCellImage]);
+
+
+  // --- USER INTERACTION ---
+  const showFeedback = (next: ActionFeedback) => {
+    setFeedback(next);
+    if (feedbackTimerRef.current) clearTimeout(feedbackTimerRef.current);
+    feedbackTimerRef.current = window.setTimeout(() => setFeedback(null), FEEDBACK_MS);
+  };
+
+  useEffect(() => {
+    return () => {
+      if (feedbackTimerRef.current) clearTimeout(feedbackTimerRef.current);
+    };
+  }, []);
+
+  const toggleControls = () => {
+    if (showControls) {
+      setShowControls(false);
+      return;
+    }
+    setShowControls(true);
+    if (controlsTimerRef.current) clearTimeout(controlsTimerRef.current);
+    controlsTimerRef.current = window.setTimeout(() => setShowControls(false), CONTROLS_HIDE_MS);
+  };
+
+  // Using the menu keeps the screen on and the menu open
+  const keepControlsOpen = () => {
+    noteInput();
+    requestWakeLock();
+    if (controlsTimerRef.current) clearTimeout(controlsTimerRef.current);
   };
 
   const updateConfig = (newConfig: Partial<AppConfig>) => {
@@ -219,92 +727,646 @@ const App: React.FC = () => {
     // Don't auto-hide when interacting with controls
     if (controlsTimerRef.current) clearTimeout(controlsTimerRef.current);
 
-    // If genre changed, load immediately to give feedback
-    if (newConfig.genre && newConfig.genre !== config.genre) {
-      // Short timeout to allow state to settle
-      setTimeout(() => loadNewImage(), 100);
+    // A manual change wins over the schedule until the active rules change
+    const overridden = (Object.keys(newConfig) as (keyof ScheduleOverrides)[]).filter(field => overrides[field] !== undefined);
+    if (overridden.length > 0) {
+      setPausedOverrides(prev => ({
+        rules: activeRulesKey,
+        fields: Array.from(new Set([...(prev.rules === activeRulesKey ? prev.fields : []), ...overridden])),
+      }));
     }
   };
 
-  // --- SWIPE HANDLERS (Brightness) ---
-  const handleTouchStart = (e: React.TouchEvent) => {
-    const touch = e.touches[0];
-    touchStartRef.current = { x: touch.clientX, y: touch.clientY };
-    initialBrightnessRef.current = config.brightness;
-    isSwipingRef.current = false;
+  // --- KIOSK ---
+  // Staff session after unlocking; closing the menu ends it
+  const [unlocked, setUnlocked] = useState<boolean>(false);
+  const [unlockPromptOpen, setUnlockPromptOpen] = useState<boolean>(false);
+  const kioskLocked = config.kioskEnabled && !unlocked;
+  const lastInputRef = useRef<number>(Date.now());
+  const longPressesRef = useRef<ZonePress[]>([]);
+  const pinFailuresRef = useRef<{ count: number; until: number }>({ count: 0, until: 0 });
+
+  const noteInput = () => {
+    lastInputRef.current = Date.now();
   };
 
-  const handleTouchMove = (e: React.TouchEvent) => {
-    if (!touchStartRef.current) return;
+  // Turning kiosk mode on counts as unlocked until the menu closes
+  const kioskEnabledRef = useRef<boolean>(config.kioskEnabled);
+  useEffect(() => {
+    if (config.kioskEnabled && !kioskEnabledRef.current) setUnlocked(true);
+    kioskEnabledRef.current = config.kioskEnabled;
+  }, [config.kioskEnabled]);
 
-    const touch = e.touches[0];
+  const lockKiosk = () => {
+    setUnlocked(false);
+    setShowControls(false);
+    if (!config.kioskEnabled) {
+      setLockedConfig(null);
+      return;
+    }
+    setLockedConfig(config);
+    showFeedback({ kind: 'label', text: 'Locked' });
+  };
 
-    // Check threshold to avoid triggering on taps
-    if (!isSwipingRef.current) {
-      const moveY = Math.abs(touch.clientY - touchStartRef.current.y);
-      const moveX = Math.abs(touch.clientX - touchStartRef.current.x);
+  // Closing the menu after unlocking locks again, keeping the settings as they are now
+  useEffect(() => {
+    if (!showControls && unlocked) lockKiosk();
+  }, [showControls, unlocked]);
+
+  const unlockKiosk = () => {
+    setUnlockPromptOpen(false);
+    setUnlocked(true);
+    if (controlsTimerRef.current) clearTimeout(controlsTimerRef.current);
+    setShowControls(true);
+  };
 
-      // Threshold of 15px to consider it a swipe
-      if (moveY > 15 || moveX > 15) {
-        isSwipingRef.current = true;
-      } else {
-        return; // Ignore micro movements
+  // Error message for the PIN pad, or null once unlocked
+  const submitPin = (pin: string): string | null => {
+    const failures = pinFailuresRef.current;
+    if (Date.now() < failures.until) return 'Too many tries, wait a moment';
+    if (pin === config.kioskPin) {
+      failures.count = 0;
+      unlockKiosk();
+      return null;
+    }
+    failures.count++;
+    if (failures.count < MAX_PIN_ATTEMPTS) return 'Wrong PIN';
+    failures.count = 0;
+    failures.until = Date.now() + PIN_LOCKOUT_MS;
+    return `Too many tries, wait ${PIN_LOCKOUT_MS / 1000} seconds`;
+  };
+
+  // While locked, long presses only count towards the unlock sequence
+  const registerLongPress = (zone: GestureZone) => {
+    longPressesRef.current = [...longPressesRef.current, { zone, at: Date.now() }].slice(-UNLOCK_SEQUENCE.length);
+    if (!completesUnlockSequence(longPressesRef.current)) return;
+    longPressesRef.current = [];
+    if (config.kioskPin) setUnlockPromptOpen(true);
+    else unlockKiosk();
+  };
+
+  // After a while without input, whatever passers-by changed goes back to the locked
+  // settings, and a staff session that was left open locks
+  const kioskIdleRef = useRef(() => {});
+  kioskIdleRef.current = () => {
+    if (Date.now() - lastInputRef.current < config.kioskRevertAfter * 60000) return;
+    if (unlocked) {
+      setShowControls(false);
+      return;
+    }
+    setUnlockPromptOpen(false);
+    const reverted = lockedConfig && getRevertedConfig(config, lockedConfig);
+    if (!reverted) return;
+    setShowControls(false);
+    setRatingPromptOpen(false);
+    setConfig(reverted);
+  };
+  useEffect(() => {
+    if (!config.kioskEnabled || config.kioskRevertAfter <= 0) return;
+    const timer = window.setInterval(() => kioskIdleRef.current(), KIOSK_IDLE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [config.kioskEnabled, config.kioskRevertAfter]);
+
+  // Staff changes that don't go through the menu (paired remotes, the start profile)
+  // become part of the locked settings
+  const updateLockedConfig = (update: (locked: AppConfig) => AppConfig) => {
+    setLockedConfig(prev => (prev ? update(prev) : prev));
+  };
+
+  // --- KEYBOARD, REMOTE & GAMEPAD INPUT ---
+  // Action waiting for a key or button from the rebinding screen
+  const [captureAction, setCaptureAction] = useState<InputAction | null>(null);
+  const bindings = useMemo(() => getBindings(config), [config.keyBindings]);
+
+  const performAction = (action: InputAction) => {
+    requestWakeLock();
+    if (kioskLocked && !isPermitted(config.kioskAllowed, action)) return;
+    switch (action) {
+      case InputAction.Next:
+        loadNextImage();
+        break;
+      case InputAction.Previous:
+        loadPreviousImage();
+        break;
+      case InputAction.PlayPause:
+        updateConfig({ isSlideshow: !displayConfig.isSlideshow });
+        showFeedback({ kind: 'label', text: displayConfig.isSlideshow ? 'Slideshow Paused' : 'Slideshow Playing' });
+        break;
+      case InputAction.BrightnessUp:
+      case InputAction.BrightnessDown: {
+        const step = action === InputAction.BrightnessUp ? BRIGHTNESS_STEP : -BRIGHTNESS_STEP;
+        setBrightness(displayConfig.brightness + step);
+        break;
+      }
+      case InputAction.OpenMenu:
+        // Stays open until closed: auto-hide would race a remote's slow button presses
+        if (controlsTimerRef.current) clearTimeout(controlsTimerRef.current);
+        setShowControls(true);
+        break;
+      case InputAction.ToggleCaption:
+        if (captionVisible) hideCaption();
+        else showCaption(config.captionEnabled ? config.captionHideAfter * 1000 : CAPTION_ON_REQUEST_MS);
+        break;
+      case InputAction.RateImage:
+        if (currentImage) setRatingPromptOpen(true);
+        break;
+      case InputAction.Like:
+        rateCurrentImage(Rating.Like);
+        break;
+      case InputAction.Dislike:
+        rateCurrentImage(Rating.Dislike);
+        break;
+      case InputAction.Ban:
+        rateCurrentImage(Rating.Ban);
+        break;
+      case InputAction.CycleFilter: {
+        const filters = getFilters(config);
+        const index = filters.findIndex(filter => filter.id === displayConfig.filterId);
+        const next = filters[(index + 1) % filters.length];
+        updateConfig({ filterId: next.id });
+        showFeedback({ kind: 'label', text: next.name });
+        break;
       }
     }
+  };
 
-    // Check if swipe started on the right side ( > 60% of width )
-    const isRightSide = touchStartRef.current.x > window.innerWidth * 0.6;
+  const setBrightness = (value: number) => {
+    const brightness = Math.min(MAX_BRIGHTNESS, Math.max(MIN_BRIGHTNESS, value));
+    updateConfig({ brightness });
+    showFeedback({ kind: 'brightness', value: brightness, max: MAX_BRIGHTNESS });
+  };
+
+  // Arrow keys move focus within an open menu or prompt (`data-focus-scope`)
+  const navigateFocus = (scope: string, token: string, target: Element | null, fromGamepad: boolean): boolean => {
+    const root = document.querySelector<HTMLElement>(`[data-focus-scope="${scope}"]`);
+    const direction = ARROW_DIRECTIONS[token];
+    if (root && direction && !isNativeArrow(target, direction)) {
+      // Arrows mean what they show in the picture, whichever way it is turned
+      moveFocusSpatially(root, rotateDirection(direction, rotation));
+      return true;
+    }
+    // Keyboards press the focused button by themselves; gamepads need a hand
+    if (root && fromGamepad && token === 'Enter' && document.activeElement instanceof HTMLElement && root.contains(document.activeElement)) {
+      document.activeElement.click();
+      return true;
+    }
+    return false;
+  };
 
-    if (isRightSide) {
-      // Calculate brightness based on absolute Y position
-      // Top of screen (Y=0) = Max Brightness
-      // Bottom of screen (Y=Height) = Min Brightness
-      const height = window.innerHeight;
-      const ratio = Math.max(0, Math.min(1, touch.clientY / height));
+  /**
+   * Routes one input token: to the rebinding screen while it waits for a key, to focus
+   * navigation while the rating prompt or menu is open, otherwise to the bound action.
+   * Returns whether the token was used, so the key's default action can be skipped.
+   */
+  const handleInputToken = (token: string, target: Element | null, fromGamepad: boolean): boolean => {
+    noteInput();
+    if (captureAction) {
+      if (!BACK_TOKENS.includes(token)) updateConfig({ keyBindings: bindToken(bindings, captureAction, token) });
+      setCaptureAction(null);
+      return true;
+    }
 
-      // Map 0..1 to Brightness range (2.0 .. 0.1)
-      // ratio 0 (top) -> 2.0
-      // ratio 1 (bottom) -> 0.1
-      const minBrightness = 0.1;
-      const maxBrightness = 2.0;
+    // Digits and Backspace are the PIN pad's own
+    if (unlockPromptOpen) {
+      if (BACK_TOKENS.includes(token) && token !== 'Backspace') {
+        setUnlockPromptOpen(false);
+        return true;
+      }
+      return navigateFocus('unlock', token, target, fromGamepad);
+    }
 
-      const newBrightness = minBrightness + (maxBrightness - minBrightness) * (1 - ratio);
+    if (ratingPromptOpen) {
+      if (BACK_TOKENS.includes(token)) {
+        setRatingPromptOpen(false);
+        return true;
+      }
+      return navigateFocus('rating', token, target, fromGamepad);
+    }
 
-      setConfig(prev => ({ ...prev, brightness: newBrightness }));
+    if (showControls) {
+      if (BACK_TOKENS.includes(token) && !(token === 'Backspace' && isTextEntry(target))) {
+        setShowControls(false);
+        return true;
+      }
+      return navigateFocus('controls', token, target, fromGamepad);
     }
+
+    const action = findAction(bindings, token);
+    if (!action) return false;
+    performAction(action);
+    return true;
   };
+  const inputHandlerRef = useRef(handleInputToken);
+  inputHandlerRef.current = handleInputToken;
+
+  useEffect(() => {
+    if (!showControls) setCaptureAction(null);
+  }, [showControls]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave browser shortcuts alone
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const token = toInputToken(e);
+      if (token && inputHandlerRef.current(token, e.target instanceof Element ? e.target : null, false)) {
+        e.preventDefault();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    const stopGamepad = startGamepadPolling(token => inputHandlerRef.current(token, document.activeElement, true));
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      stopGamepad();
+    };
+  }, []);
+
+  // --- CAPTION ---
+  const [captionVisible, setCaptionVisible] = useState<boolean>(false);
+  const captionTimerRef = useRef<number | null>(null);
+
+  const hideCaption = useCallback(() => {
+    if (captionTimerRef.current) clearTimeout(captionTimerRef.current);
+    captionTimerRef.current = null;
+    setCaptionVisible(false);
+  }, []);
 
-  const handleTouchEnd = () => {
-    touchStartRef.current = null;
-    isSwipingRef.current = false;
+  // 0 keeps the caption up until the image changes or it is hidden by hand
+  const showCaption = useCallback((hideAfterMs: number) => {
+    if (captionTimerRef.current) clearTimeout(captionTimerRef.current);
+    captionTimerRef.current = hideAfterMs > 0 ? window.setTimeout(hideCaption, hideAfterMs) : null;
+    setCaptionVisible(true);
+  }, [hideCaption]);
+
+  // Every new image brings its caption up again
+  const currentImageKey = currentImage ? getImageKey(currentImage) : null;
+  useEffect(() => {
+    if (config.captionEnabled && currentImageKey) showCaption(config.captionHideAfter * 1000);
+    else hideCaption();
+  }, [currentImageKey, config.captionEnabled, config.captionHideAfter, showCaption, hideCaption]);
+
+  useEffect(() => () => {
+    if (captionTimerRef.current) clearTimeout(captionTimerRef.current);
+  }, []);
+
+  // --- DISPLAY CARE ---
+  // Drifts with the schedule clock, which ticks often enough for the shift steps
+  const pixelShift = getPixelShift(now.getTime(), config.pixelShift);
+
+  // No image stays up longer than the max dwell, slideshow or not
+  const dwellChangeRef = useRef(() => {});
+  dwellChangeRef.current = () => {
+    loadNextImage();
+    for (let cell = 1; cell < cellCount; cell++) loadCellImage(cell);
+  };
+  useEffect(() => {
+    if (config.maxDwell <= 0 || sleeping || followingLeader || !currentImageKey) return;
+    // Repeats in case the change fails, e.g. while offline
+    const timer = window.setInterval(() => dwellChangeRef.current(), config.maxDwell * 60000);
+    return () => clearInterval(timer);
+  }, [config.maxDwell, sleeping, followingLeader, currentImageKey]);
+
+  // Full-black refresh every few hours
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  useEffect(() => {
+    if (config.blackRefreshInterval <= 0) return;
+    let endTimer: number | undefined;
+    const timer = window.setInterval(() => {
+      setRefreshing(true);
+      endTimer = window.setTimeout(() => setRefreshing(false), config.blackRefreshDuration * 1000);
+    }, config.blackRefreshInterval * 3600000);
+    return () => {
+      clearInterval(timer);
+      clearTimeout(endTimer);
+      setRefreshing(false);
+    };
+  }, [config.blackRefreshInterval, config.blackRefreshDuration]);
+
+  // Bright images are dimmed to the luminance cap. Images loaded before they were analyzed
+  // are measured here; the previous level holds meanwhile.
+  const [measuredLuminance, setMeasuredLuminance] = useState<number | null>(null);
+  const knownLuminance = currentImage?.analysis?.luminance;
+  const luminanceCapped = config.luminanceCap < 1;
+  useEffect(() => {
+    if (!luminanceCapped || !currentImage || knownLuminance !== undefined) return;
+    let cancelled = false;
+    measureImageLuminance(currentImage.url).then(luminance => {
+      if (!cancelled) setMeasuredLuminance(luminance);
+    });
+    return () => { cancelled = true; };
+  }, [currentImage?.url, knownLuminance, luminanceCapped]);
+  const brightness = capBrightness(displayConfig.brightness, config.luminanceCap, knownLuminance ?? measuredLuminance);
+
+  // --- GESTURES ---
+  const gestureBindings = useMemo(() => getGestureBindings(config), [config.gestureBindings]);
+
+  const handleGesture = (gesture: GestureType, zone: GestureZone) => {
+    noteInput();
+    requestWakeLock();
+    if (kioskLocked && gesture === GestureType.LongPress) {
+      registerLongPress(zone);
+      return;
+    }
+    const target = findGestureAction(gestureBindings, gesture, zone);
+    if (kioskLocked && !isPermitted(config.kioskAllowed, target)) return;
+    if (target === GestureAction.ToggleMenu) toggleControls();
+    else if (isInputAction(target)) performAction(target);
+  };
+
+  // Top of the screen is the brightest
+  const handleDrag = (zone: GestureZone, position: number) => {
+    noteInput();
+    if (findGestureAction(gestureBindings, GestureType.VerticalDrag, zone) !== GestureAction.SlideBrightness) return;
+    if (kioskLocked && !isPermitted(config.kioskAllowed, GestureAction.SlideBrightness)) return;
+    setBrightness(MIN_BRIGHTNESS + (MAX_BRIGHTNESS - MIN_BRIGHTNESS) * (1 - position));
+  };
+
+  const gestureHandlersRef = useRef({ handleGesture, handleDrag, gestureBindings, kioskLocked });
+  gestureHandlersRef.current = { handleGesture, handleDrag, gestureBindings, kioskLocked };
+
+  useEffect(() => {
+    if (!rootRef.current) return;
+    return attachGestureRecognizer(rootRef.current, {
+      // A locked kiosk listens for the long presses of the unlock sequence everywhere
+      isBound: (gesture, zone) => (gestureHandlersRef.current.kioskLocked && gesture === GestureType.LongPress)
+        || findGestureAction(gestureHandlersRef.current.gestureBindings, gesture, zone) !== GestureAction.None,
+      onGesture: (gesture, zone) => gestureHandlersRef.current.handleGesture(gesture, zone),
+      onDrag: (zone, position) => gestureHandlersRef.current.handleDrag(zone, position),
+    }, rotation);
+  }, [rotation]);
+
+  // --- REMOTE CONTROL ---
+  const remoteChannelRef = useRef<RemoteChannel | null>(null);
+
+  const handleRemoteCommand = (command: RemoteCommand) => {
+    switch (command.type) {
+      case 'hello':
+        remoteChannelRef.current?.send({ type: 'state', state: remoteState });
+        break;
+      case 'next':
+        loadNextImage();
+        break;
+      case 'previous':
+        loadPreviousImage();
+        break;
+      case 'selectPlaylist':
+        if (config.playlists.some(playlist => playlist.id === command.playlistId)) {
+          updateConfig({ playlistId: command.playlistId });
+          updateLockedConfig(locked => ({ ...locked, playlistId: command.playlistId }));
+        }
+        break;
+      case 'updateConfig': {
+        const patch = sanitizeRemotePatch(command.patch, config);
+        if (Object.keys(patch).length > 0) {
+          updateConfig(patch);
+          updateLockedConfig(locked => ({ ...locked, ...patch }));
+        }
+        break;
+      }
+    }
+  };
+  // The channel outlives renders, so it always calls the latest handler
+  const remoteHandlerRef = useRef(handleRemoteCommand);
+  remoteHandlerRef.current = handleRemoteCommand;
+
+  useEffect(() => {
+    if (!config.remoteEnabled) return;
+    const channel = openRemoteChannel(config.remoteCode, config.relayUrl, 'frame', command => remoteHandlerRef.current(command));
+    remoteChannelRef.current = channel;
+    return () => {
+      channel.close();
+      remoteChannelRef.current = null;
+    };
+  }, [config.remoteEnabled, config.remoteCode, config.relayUrl]);
+
+  const remoteImageUrl = currentImage?.remoteUrl ?? currentImage?.url ?? null;
+  const remoteState = useMemo((): RemoteState => ({
+    config: {
+      playlistId: displayConfig.playlistId,
+      isSlideshow: displayConfig.isSlideshow,
+      interval: displayConfig.interval,
+      brightness: displayConfig.brightness,
+      frameId: displayConfig.frameId,
+      filterId: displayConfig.filterId,
+      transitionEffect: displayConfig.transitionEffect,
+      fitMode: displayConfig.fitMode,
+      layout: displayConfig.layout,
+    },
+    playlists: displayConfig.playlists.map(({ id, name }) => ({ id, name })),
+    imageUrl: remoteImageUrl && /^https?:/.test(remoteImageUrl) ? remoteImageUrl : null,
+    sleeping,
+  }), [displayConfig, remoteImageUrl, sleeping]);
+
+  // Paired remotes follow every change, whoever made it
+  useEffect(() => {
+    remoteChannelRef.current?.send({ type: 'state', state: remoteState });
+  }, [remoteState, config.remoteEnabled]);
+
+  const currentRating = currentImage ? getRating(ratings, currentImage) : null;
+
+  // --- FITTING ---
+  useEffect(() => {
+    const handleResize = () => setViewportAspect(window.innerWidth / window.innerHeight);
+    window.addEventListener('resize', handleResize);
+    window.addEventListener('orientationchange', handleResize);
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      window.removeEventListener('orientationchange', handleResize);
+    };
+  }, []);
+
+  const currentImageSettings = currentImage ? imageSettings[getImageKey(currentImage)] : undefined;
+  // Each cell fits its image to the cell's own shape
+  const cells = useMemo((): ArtFrameCell[] => layoutSpec.cells.map(({ fraction }, cell) => {
+    const image = cell === 0 ? currentImage : cellQueues[cell - 1]?.at(-1) ?? null;
+    const settings = image ? imageSettings[getImageKey(image)] : undefined;
+    return {
+      imageUrl: image?.url ?? null,
+      loading: cell === 0 ? loading : !image,
+      direction: cell === 0 ? direction : 1,
+      fit: (cell === 0 && (isLeader || followingLeader) && syncFit) || resolveFit(image, settings, displayConfig.fitMode, (screenAspect * fraction.x) / fraction.y),
+    };
+  }), [layoutSpec, currentImage, cellQueues, imageSettings, loading, direction, displayConfig.fitMode, screenAspect, syncFit, isLeader, followingLeader]);
+
+  // Passing undefined for a field clears it, so the image follows the global setting again
+  const updateImageSettings = (patch: ImageDisplaySettings) => {
+    if (!currentImage) return;
+    const key = getImageKey(currentImage);
+    setImageSettings(prev => {
+      const merged = { ...prev[key], ...patch };
+      (Object.keys(merged) as (keyof ImageDisplaySettings)[]).forEach(field => {
+        if (merged[field] === undefined) delete merged[field];
+      });
+      const { [key]: _previous, ...rest } = prev;
+      return Object.keys(merged).length > 0 ? { ...rest, [key]: merged } : rest;
+    });
+  };
+
+  // --- RATINGS ---
+  const updateRatings = (next: Ratings) => {
+    ratingsRef.current = next;
+    setRatings(next);
+  };
+
+  // Rating an image the way it is already rated clears the rating
+  const rateCurrentImage = (rating: Rating) => {
+    setRatingPromptOpen(false);
+    if (!currentImage) return;
+    const key = getImageKey(currentImage);
+    const next = currentRating === rating ? null : rating;
+    updateRatings(rateImage(ratings, toStoredImage(currentImage), next, activePlaylist.id));
+    showFeedback({ kind: 'label', text: next ? RATING_FEEDBACK[next] : 'Rating Removed' });
+    if (next !== Rating.Ban) return;
+
+    // A banned image leaves history and every queue, and the next image replaces it right away
+    const keep = (image: ArtImage) => getImageKey(image) !== key;
+    setHistory(prev => filterHistory(prev, keep));
+    prefetchRef.current.images = prefetchRef.current.images.filter(ready => keep(ready.image));
+    setCellQueues(prev => prev.map(queue => queue.filter(keep)));
+    loadNewImage();
+  };
+
+  // --- PROFILES ---
+  const saveProfile = (name: string) => {
+    setProfiles(prev => upsertProfile(prev, createProfile(name, config)));
+  };
+
+  const applyProfileSettings = (profile: Profile) => {
+    setConfig(prev => applyProfile(prev, profile));
+  };
+
+  // A kiosk started with `?profile=` boots into that setup: a saved profile by name, or a
+  // profile file that is fetched on every start so edits to it reach the frame
+  useEffect(() => {
+    if (!startProfile) return;
+    const saved = findProfile(persisted.profiles, startProfile);
+    if (saved) {
+      setConfig(prev => applyProfile(prev, saved));
+      updateLockedConfig(locked => applyProfile(locked, saved));
+      return;
+    }
+
+    let cancelled = false;
+    fetchProfile(new URL(startProfile, window.location.href).href, persisted.config)
+      .then(profile => {
+        if (cancelled) return;
+        setProfiles(prev => upsertProfile(prev, profile));
+        setConfig(prev => applyProfile(prev, profile));
+        updateLockedConfig(locked => applyProfile(locked, profile));
+      })
+      .catch(error => {
+        // Keeps the saved settings, which hold the profile from the last successful start
+        console.error('Could not load profile:', error);
+        if (!cancelled) showFeedback({ kind: 'label', text: `Profile not loaded: ${error instanceof Error ? error.message : startProfile}` });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [persisted, startProfile]);
+
+  const resetConfig = () => {
+    setConfig(INITIAL_CONFIG);
+  };
+
+  // Show a freshly imported image right away when the playlist plays from the library
+  const handleLibraryImport = () => {
+    if (activePlaylist.items.some(item => item.source === 'local')) {
+      resetPrefetchQueue();
+      loadNewImage();
+    }
+  };
+
+  // Images dropped anywhere on the frame go into the library album the playlist plays,
+  // or an album named after the playlist
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    if (kioskLocked) return;
+    const libraryItem = activePlaylist.items.find(item => item.source === 'local' && item.query);
+    const added = await addImages(e.dataTransfer.files, [libraryItem?.query ?? activePlaylist.name]);
+    if (added.length > 0) handleLibraryImport();
   };
 
   return (
     <div
-      className="relative w-screen h-screen bg-black overflow-hidden cursor-none"
-      style={{ touchAction: 'none' }}
-      onClick={handleInteraction}
-      onTouchStart={handleTouchStart}
-      onTouchMove={handleTouchMove}
-      onTouchEnd={handleTouchEnd}
+      className="relative bg-black overflow-hidden cursor-none"
+      ref={rootRef}
+      style={{ touchAction: 'none', ...getRotationStyle(rotation) }}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleDrop}
     >
-      {/* Main View */}
-      <ArtFrame
-        imageUrl={currentImage}
-        loading={loading}
-        frameStyle={config.frameStyle}
-        filterPreset={config.filterPreset}
-        frameWidth={config.frameWidth}
-        brightness={config.brightness}
-      />
+      {/* Picture and overlays, drifting together when pixel shift is on */}
+      <div className="absolute inset-0" style={getShiftStyle(pixelShift)}>
+        {/* Main View */}
+        <ArtFrame
+          cells={cells}
+          layout={layoutSpec}
+          offline={!online}
+          frame={config.dynamicMatte ? withImageMatte(getActiveFrame(config), currentImage?.analysis) : getActiveFrame(config)}
+          adjustments={getActiveFilter(displayConfig).adjustments}
+          brightness={brightness}
+          transitionEffect={config.transitionEffect}
+          transitionDuration={config.transitionDuration}
+          transitionEasing={config.transitionEasing}
+          displayDuration={displayConfig.isSlideshow ? activeInterval * 1000 : STILL_DISPLAY_MS}
+        />
+
+        <WidgetLayer config={displayConfig} brightness={brightness} imageUrl={currentImage?.url ?? null} screenAspect={screenAspect} />
+
+        {captionVisible && currentImage?.metadata && hasCaption(currentImage.metadata) && (
+          <Caption
+            metadata={currentImage.metadata}
+            position={config.captionPosition}
+            showQrCode={config.captionQrCode}
+          />
+        )}
+
+        <ActionHud feedback={feedback} />
+      </div>
+
+      {/* Scheduled sleep and black refresh: black screen below the controls */}
+      {(sleeping || (refreshing && !showControls)) && <div className="absolute inset-0 z-40 bg-black" />}
+
+      {applyUpdate && !sleeping && (
+        <UpdatePrompt onApply={applyUpdate} onDismiss={() => setApplyUpdate(null)} />
+      )}
+
+      {ratingPromptOpen && currentImage && (
+        <RatingPrompt rating={currentRating} onRate={rateCurrentImage} onClose={() => setRatingPromptOpen(false)} />
+      )}
+
+      {unlockPromptOpen && (
+        <KioskUnlock onSubmit={submitPin} onClose={() => setUnlockPromptOpen(false)} />
+      )}
 
       {/* Control Layer */}
       <Controls
         visible={showControls}
-        config={config}
+        portrait={portrait}
+        config={displayConfig}
         onUpdate={updateConfig}
-        onInteraction={handleInteraction}
-        onNext={loadNewImage}
+        onInteraction={keepControlsOpen}
+        onNext={loadNextImage}
+        history={history}
+        onJumpTo={jumpToImage}
+        activeRuleIds={activeRules.map(rule => rule.id)}
+        previewUrl={currentImage?.url ?? null}
+        imageSettings={currentImageSettings}
+        onUpdateImageSettings={updateImageSettings}
+        leaderPresent={leaderPresent}
+        captureAction={captureAction}
+        onCaptureBinding={setCaptureAction}
+        onLibraryImport={handleLibraryImport}
+        rating={currentRating}
+        onRate={rateCurrentImage}
+        ratings={ratings}
+        onUpdateRatings={updateRatings}
+        profiles={profiles}
+        onSaveProfile={saveProfile}
+        onApplyProfile={applyProfileSettings}
+        onUpdateProfiles={setProfiles}
+        onReset={resetConfig}
+        locked={kioskLocked}
+        onLock={lockKiosk}
         onClose={() => setShowControls(false)}
       />
     </div>
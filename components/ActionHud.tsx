@@ -0,0 +1,38 @@
+import React from 'react';
+import { Sun } from './Icon';
+
+export type ActionFeedback =
+  | { kind: 'brightness'; value: number; max: number }
+  | { kind: 'label'; text: string };
+
+interface ActionHudProps {
+  feedback: ActionFeedback | null;
+}
+
+/**
+ * Brief on-screen confirmation of a gesture or key press, e.g. the brightness level
+ * while dragging.
+ */
+const ActionHud: React.FC<ActionHudProps> = ({ feedback }) => {
+  if (!feedback) return null;
+
+  return (
+    <div className="absolute top-8 left-1/2 -translate-x-1/2 z-30 pointer-events-none animate-fade-in">
+      <div className="flex items-center space-x-3 bg-black/70 backdrop-blur-md border border-white/10 rounded-full px-5 py-2.5 text-white text-xs tracking-wide">
+        {feedback.kind === 'brightness' ? (
+          <>
+            <Sun size={14} />
+            <div className="w-32 h-1 rounded-full bg-white/20 overflow-hidden">
+              <div className="h-full bg-white" style={{ width: `${(feedback.value / feedback.max) * 100}%` }} />
+            </div>
+            <span className="w-10 text-right tabular-nums">{Math.round(feedback.value * 100)}%</span>
+          </>
+        ) : (
+          <span>{feedback.text}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActionHud;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { ImageAdjustments } from '../types';
+import { buildColorMatrix } from '../services/adjustments';
+
+interface AdjustmentFilterProps {
+  id: string;
+  adjustments: ImageAdjustments;
+}
+
+/**
+ * Hidden SVG filter definition; images reference it with `filter: url(#id)`.
+ */
+const AdjustmentFilter: React.FC<AdjustmentFilterProps> = ({ id, adjustments }) => (
+  <svg width="0" height="0" className="absolute" aria-hidden="true">
+    <filter id={id} colorInterpolationFilters="sRGB">
+      <feColorMatrix type="matrix" values={buildColorMatrix(adjustments)} />
+    </filter>
+  </svg>
+);
+
+export default AdjustmentFilter;
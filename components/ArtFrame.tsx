@@ -1,101 +1,121 @@
 import React, { useMemo } from 'react';
-import { FrameStyle, FilterPreset } from '../types';
+import { FrameDefinition, ImageAdjustments, TransitionEasing, TransitionEffect } from '../types';
+import { TransitionDirection } from '../services/transitions';
+import { GRAIN_TEXTURE, hasColorAdjustments } from '../services/adjustments';
+import { getFrameStyles } from '../services/frames';
+import { ResolvedFit } from '../services/fitting';
+import { LayoutSpec, getCellGap } from '../services/layouts';
+import TransitionStage from './TransitionStage';
+import AdjustmentFilter from './AdjustmentFilter';
 
-interface ArtFrameProps {
+const ADJUSTMENT_FILTER_ID = 'lumina-adjustments';
+
+export interface ArtFrameCell {
   imageUrl: string | null;
   loading: boolean;
-  frameStyle: FrameStyle;
-  filterPreset: FilterPreset;
-  frameWidth: number;
-  brightness: number;
+  direction: TransitionDirection;
+  fit: ResolvedFit;
 }
 
-const ArtFrame: React.FC<ArtFrameProps> = ({ imageUrl, loading, frameStyle, filterPreset, frameWidth, brightness }) => {
-
-  // Calculate Frame CSS with dynamic frame width
-  const frameClasses = useMemo(() => {
-    const base = "relative transition-all duration-700 ease-in-out w-full h-full flex items-center justify-center overflow-hidden";
-    const borderWidth = `border-[${frameWidth}px]`;
-
-    switch (frameStyle) {
-      case FrameStyle.ModernBlack:
-        return `${base} bg-gray-900 ${borderWidth} border-black shadow-2xl`;
-      case FrameStyle.GalleryWhite:
-        return `${base} bg-gray-100 ${borderWidth} border-white shadow-[0_20px_50px_rgba(0,0,0,0.5)]`;
-      case FrameStyle.Wood:
-        // Simulating wood with color for simplicity
-        return `${base} bg-[#2c1b10] ${borderWidth} border-[#5c4033] outline outline-2 outline-[#3e2b22] shadow-2xl`;
-      case FrameStyle.None:
-      default:
-        return `${base} bg-black`;
-    }
-  }, [frameStyle, frameWidth]);
-
-  // Calculate Image Filters based on Preset
-  const filterStyle = useMemo(() => {
-    let filterString = '';
-
-    switch (filterPreset) {
-      case FilterPreset.Noir:
-        filterString = 'grayscale(100%) contrast(120%) brightness(90%)';
-        break;
-      case FilterPreset.Vivid:
-        filterString = 'saturate(150%) contrast(110%)';
-        break;
-      case FilterPreset.Warm:
-        filterString = 'sepia(30%) saturate(120%) brightness(105%)';
-        break;
-      case FilterPreset.Cool:
-        filterString = 'hue-rotate(180deg) sepia(20%) saturate(80%)'; // Simple cool effect
-        break;
-      case FilterPreset.Cinematic:
-        filterString = 'contrast(120%) saturate(80%) brightness(95%)';
-        break;
-      case FilterPreset.Fade:
-        filterString = 'opacity(80%) contrast(90%) brightness(110%)';
-        break;
-      case FilterPreset.Original:
-      default:
-        filterString = 'none';
-        break;
-    }
+interface ArtFrameProps {
+  cells: ArtFrameCell[]; // one per opening in the layout
+  layout: LayoutSpec;
+  offline: boolean;
+  frame: FrameDefinition;
+  adjustments: ImageAdjustments;
+  brightness: number;
+  transitionEffect: TransitionEffect;
+  transitionDuration: number;
+  transitionEasing: TransitionEasing;
+  displayDuration: number; // ms until the next change, drives Ken Burns motion
+}
 
-    return {
-      filter: filterString,
-      transition: 'filter 0.8s ease-out',
-    };
-  }, [filterPreset]);
+const ArtFrame: React.FC<ArtFrameProps> = ({
+  cells,
+  layout,
+  offline,
+  frame,
+  adjustments,
+  brightness,
+  transitionEffect,
+  transitionDuration,
+  transitionEasing,
+  displayDuration
+}) => {
 
-  // Inner matte styling for Gallery look
-  const matteStyle = frameStyle !== FrameStyle.None ? "p-[2vmin] md:p-[4vmin] bg-transparent" : "";
+  const frameStyles = useMemo(() => getFrameStyles(frame), [frame]);
 
-  // Combine preset filters with global brightness
-  // Note: brightness filter on parent might affect everything, usually desired for "screen brightness" simulation
+  // Color adjustments run through one SVG filter; skipped entirely when neutral
+  const filterStyle = useMemo(() => ({
+    filter: hasColorAdjustments(adjustments) ? `url(#${ADJUSTMENT_FILTER_ID})` : 'none',
+  }), [adjustments]);
 
   return (
     <div
       className="w-full h-full flex items-center justify-center"
       style={{ filter: `brightness(${brightness})` }}
     >
-      <div className={frameClasses}>
-        <div className={`w-full h-full relative flex items-center justify-center ${matteStyle}`}>
-          {/* Image Container - fullscreen landscape display */}
-          <div className="relative w-full h-full flex items-center justify-center overflow-hidden bg-black">
-            {imageUrl && (
-              <img
-                src={imageUrl}
-                alt="Art"
-                className={`w-full h-full object-cover transition-opacity duration-1000 ${loading ? 'opacity-50 blur-sm scale-105' : 'opacity-100 scale-100'}`}
-                style={filterStyle}
-              />
-            )}
+      <AdjustmentFilter id={ADJUSTMENT_FILTER_ID} adjustments={adjustments} />
+      <div
+        className="relative transition-all duration-700 ease-in-out w-full h-full flex items-center justify-center overflow-hidden"
+        style={frameStyles.frame}
+      >
+        <div className="w-full h-full relative transition-all duration-700" style={frameStyles.matte}>
+          {/* Multi-image layouts cut several openings into the same matte */}
+          <div className="w-full h-full grid" style={{ ...layout.grid, gap: getCellGap(frame.matteWidth) }}>
+            {cells.map(({ imageUrl, loading, direction, fit }, index) => (
+              <div
+                key={index}
+                className="relative w-full h-full min-w-0 min-h-0 flex items-center justify-center overflow-hidden bg-black"
+                style={{ ...layout.cells[index]?.style, ...frameStyles.opening }}
+              >
+                {/* The current image stays fully visible while the next one loads */}
+                <TransitionStage
+                  imageUrl={imageUrl}
+                  effect={transitionEffect}
+                  duration={transitionDuration}
+                  easing={transitionEasing}
+                  displayDuration={displayDuration}
+                  direction={direction}
+                  imageStyle={filterStyle}
+                  fit={fit}
+                />
+
+                {/* Vignette and grain are static overlays, so they cost nothing per frame */}
+                {adjustments.vignette > 0 && (
+                  <div
+                    className="absolute inset-0 pointer-events-none z-10"
+                    style={{
+                      background: 'radial-gradient(ellipse at center, transparent 45%, black 100%)',
+                      opacity: adjustments.vignette,
+                    }}
+                  />
+                )}
+                {adjustments.grain > 0 && (
+                  <div
+                    className="absolute inset-0 pointer-events-none z-10 mix-blend-overlay"
+                    style={{ backgroundImage: GRAIN_TEXTURE, opacity: adjustments.grain * 0.6 }}
+                  />
+                )}
+
+                {/* Loading Indicator */}
+                {loading && !imageUrl && (
+                  <div className="absolute inset-0 flex items-center justify-center text-white/30 animate-pulse">
+                    <span className="text-sm tracking-widest font-light">CURATING...</span>
+                  </div>
+                )}
 
-            {/* Loading Indicator */}
-            {loading && !imageUrl && (
-              <div className="absolute inset-0 flex items-center justify-center text-white/30 animate-pulse">
-                <span className="text-sm tracking-widest font-light">CURATING...</span>
+                {/* No provider could deliver an image; App retries in the background */}
+                {!loading && !imageUrl && (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center text-white/30 space-y-2 text-center px-6">
+                    <span className="text-sm tracking-widest font-light">{offline ? 'OFFLINE' : 'NO IMAGES AVAILABLE'}</span>
+                    {offline && (
+                      <span className="text-[10px] tracking-wide">Images in the library keep playing without a network</span>
+                    )}
+                  </div>
+                )}
               </div>
-            )}
+            ))}
           </div>
         </div>
       </div>
@@ -0,0 +1,50 @@
+import React from 'react';
+import { CaptionPosition, ImageMetadata } from '../types';
+import { formatCaptionDate, getSourceLabel } from '../services/metadata';
+import QrCode from './QrCode';
+
+const QR_CODE_SIZE = 72;
+
+const POSITION_CLASSES: Record<CaptionPosition, string> = {
+  [CaptionPosition.BottomLeft]: 'bottom-8 left-8',
+  [CaptionPosition.BottomRight]: 'bottom-8 right-8',
+  [CaptionPosition.TopLeft]: 'top-8 left-8',
+  [CaptionPosition.TopRight]: 'top-8 right-8',
+};
+
+interface CaptionProps {
+  metadata: ImageMetadata;
+  position: CaptionPosition;
+  showQrCode: boolean;
+}
+
+/**
+ * Museum-style label for the current image: title, artist, date and source,
+ * with a QR code leading to the source page.
+ */
+const Caption: React.FC<CaptionProps> = ({ metadata, position, showQrCode }) => {
+  const { title, author, sourceUrl, capturedAt, camera, exposure } = metadata;
+  const webSource = sourceUrl && /^https?:/.test(sourceUrl) ? sourceUrl : undefined;
+  const details = [capturedAt && formatCaptionDate(capturedAt), camera].filter(Boolean).join(' · ');
+
+  return (
+    <div className={`absolute ${POSITION_CLASSES[position]} z-20 pointer-events-none animate-fade-in`}>
+      <div className="flex items-center space-x-4 max-w-sm bg-[#f4f1ea] text-neutral-900 rounded-sm shadow-2xl px-5 py-4">
+        <div className="min-w-0 space-y-1">
+          <p className="font-serif italic text-base leading-snug">{title || 'Untitled'}</p>
+          {author && <p className="text-xs font-medium">{author}</p>}
+          {details && <p className="text-[10px] text-neutral-600">{details}</p>}
+          {exposure && <p className="text-[10px] text-neutral-500 tabular-nums">{exposure}</p>}
+          {webSource && <p className="text-[10px] text-neutral-500 uppercase tracking-wider truncate">{getSourceLabel(webSource)}</p>}
+        </div>
+        {showQrCode && webSource && (
+          <div className="flex-shrink-0">
+            <QrCode text={webSource} size={QR_CODE_SIZE} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Caption;
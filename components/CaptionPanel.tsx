@@ -0,0 +1,66 @@
+import React from 'react';
+import { AppConfig, CaptionPosition } from '../types';
+
+interface CaptionPanelProps {
+  config: AppConfig;
+  onUpdate: (newConfig: Partial<AppConfig>) => void;
+}
+
+const CaptionPanel: React.FC<CaptionPanelProps> = ({ config, onUpdate }) => {
+  const chipClass = (selected: boolean) =>
+    `flex-shrink-0 px-4 py-2 rounded-full text-xs border whitespace-nowrap ${selected ? 'border-white bg-white text-black' : 'border-white/20 hover:border-white/50'}`;
+
+  return (
+    <div className="space-y-4">
+      <label className="text-xs text-gray-500 uppercase tracking-widest flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={config.captionEnabled}
+          onChange={(e) => onUpdate({ captionEnabled: e.target.checked })}
+          className="accent-blue-500"
+        />
+        <span>Caption</span>
+      </label>
+      <p className="text-xs text-gray-500">
+        Title, artist, date and source of each new image, where the source provides them. The Show / Hide Caption
+        action (I key, Info button) shows it at any time.
+      </p>
+
+      <div className="flex space-x-3 overflow-x-auto pb-2 scrollbar-hide">
+        {Object.values(CaptionPosition).map(position => (
+          <button key={position} onClick={() => onUpdate({ captionPosition: position })} className={chipClass(config.captionPosition === position)}>
+            {position}
+          </button>
+        ))}
+      </div>
+
+      <div>
+        <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block flex items-center justify-between">
+          <span>Hide After</span>
+          <span className="text-white">{config.captionHideAfter > 0 ? `${config.captionHideAfter}s` : 'Never'}</span>
+        </label>
+        <input
+          type="range"
+          min="0"
+          max="60"
+          step="5"
+          value={config.captionHideAfter}
+          onChange={(e) => onUpdate({ captionHideAfter: parseInt(e.target.value) })}
+          className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+        />
+      </div>
+
+      <label className="text-xs text-gray-500 uppercase tracking-widest flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={config.captionQrCode}
+          onChange={(e) => onUpdate({ captionQrCode: e.target.checked })}
+          className="accent-blue-500"
+        />
+        <span>QR Code to Source</span>
+      </label>
+    </div>
+  );
+};
+
+export default CaptionPanel;
@@ -1,27 +1,78 @@
 import React, { useState } from 'react';
-import { AppConfig, FrameStyle, Genre, FilterPreset } from '../types';
+import { AppConfig, ImageDisplaySettings, InputAction, LayoutMode, Orientation, Profile, Rating, TransitionEasing, TransitionEffect } from '../types';
+import { getActivePlaylist } from '../services/playlists';
+import { HistoryState } from '../services/history';
+import { Ratings } from '../services/ratings';
+import HistoryStrip from './HistoryStrip';
+import LibraryPanel from './LibraryPanel';
+import RatingsPanel from './RatingsPanel';
+import PlaylistPanel from './PlaylistPanel';
+import SchedulePanel from './SchedulePanel';
+import FilterPanel from './FilterPanel';
+import FramePanel from './FramePanel';
+import FitPanel from './FitPanel';
+import CaptionPanel from './CaptionPanel';
+import WidgetsPanel from './WidgetsPanel';
+import DisplayCarePanel from './DisplayCarePanel';
+import KioskPanel from './KioskPanel';
+import ProfilesPanel from './ProfilesPanel';
+import RemotePanel from './RemotePanel';
+import SyncPanel from './SyncPanel';
+import InputPanel from './InputPanel';
+import GesturePanel from './GesturePanel';
 import {
   Palette,
   Layout,
   Play,
   Pause,
   Sun,
-  ImageIcon
+  Clock,
+  ImageIcon,
+  Images,
+  Smartphone,
+  MonitorSmartphone,
+  Keyboard,
+  Heart,
+  ThumbsDown,
+  Ban,
+  RotateCcw
 } from './Icon';
 
 interface ControlsProps {
   visible: boolean;
+  portrait: boolean; // of the picture, after any software rotation
   config: AppConfig;
   onUpdate: (newConfig: Partial<AppConfig>) => void;
   onInteraction: () => void;
   onNext: () => void;
   onClose?: () => void;
+  onLibraryImport: () => void;
+  rating: Rating | null; // of the current image
+  onRate: (rating: Rating) => void;
+  ratings: Ratings;
+  onUpdateRatings: (ratings: Ratings) => void;
+  profiles: Profile[];
+  onSaveProfile: (name: string) => void;
+  onApplyProfile: (profile: Profile) => void;
+  onUpdateProfiles: (profiles: Profile[]) => void;
+  onReset: () => void;
+  history: HistoryState;
+  onJumpTo: (index: number) => void;
+  activeRuleIds: string[];
+  previewUrl: string | null;
+  imageSettings: ImageDisplaySettings | undefined;
+  onUpdateImageSettings: (patch: ImageDisplaySettings) => void;
+  leaderPresent: boolean; // sync followers only
+  captureAction: InputAction | null;
+  onCaptureBinding: (action: InputAction | null) => void;
+  locked: boolean; // kiosk mode, opened by a passer-by: no profiles, reset or kiosk settings
+  onLock: () => void;
 }
 
-const Controls: React.FC<ControlsProps> = ({ visible, config, onUpdate, onInteraction, onNext, onClose }) => {
-  const [activeTab, setActiveTab] = useState<'genre' | 'style' | 'filter'>('genre');
+const Controls: React.FC<ControlsProps> = ({ visible, portrait, config, onUpdate, onInteraction, onNext, onClose, onLibraryImport, rating, onRate, ratings, onUpdateRatings, profiles, onSaveProfile, onApplyProfile, onUpdateProfiles, onReset, history, onJumpTo, activeRuleIds, previewUrl, imageSettings, onUpdateImageSettings, leaderPresent, captureAction, onCaptureBinding, locked, onLock }) => {
+  const [activeTab, setActiveTab] = useState<'playlist' | 'style' | 'filter' | 'library' | 'schedule' | 'remote' | 'sync' | 'input'>('playlist');
 
-  // Prevent clicks from propagating to the dismiss handler
+  // Keeps the menu open while it is being used
   const handleContainerClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     onInteraction();
@@ -31,6 +82,8 @@ const Controls: React.FC<ControlsProps> = ({ visible, config, onUpdate, onIntera
 
   return (
     <div
+      data-focus-scope="controls"
+      data-no-gestures
       className={`fixed bottom-0 left-0 right-0 z-50 transition-transform duration-500 ease-in-out ${visible ? 'translate-y-0' : 'translate-y-full'}`}
       onClick={handleContainerClick}
     >
@@ -58,14 +111,15 @@ const Controls: React.FC<ControlsProps> = ({ visible, config, onUpdate, onIntera
         )}
 
         {/* Top Bar: Play/Pause, Next & Tab Selectors */}
-        <div className="flex items-center justify-between mb-6">
-          <div className="flex space-x-6">
+        {/* Portrait screens are too narrow for one row: the buttons go below the tabs */}
+        <div className={`flex mb-6 ${portrait ? 'flex-col items-start space-y-4' : 'items-center justify-between'}`}>
+          <div className={`flex space-x-6 overflow-x-auto scrollbar-hide ${portrait ? 'max-w-full pr-10' : ''}`}>
             <button
-              onClick={() => setActiveTab('genre')}
-              className={`flex flex-col items-center space-y-1 transition-colors ${activeTab === 'genre' ? 'text-blue-400' : 'text-gray-500 hover:text-white'}`}
+              onClick={() => setActiveTab('playlist')}
+              className={`flex flex-col items-center space-y-1 transition-colors ${activeTab === 'playlist' ? 'text-blue-400' : 'text-gray-500 hover:text-white'}`}
             >
               <Layout size={20} />
-              <span className="text-[10px] uppercase tracking-wider">Genre</span>
+              <span className="text-[10px] uppercase tracking-wider">Playlist</span>
             </button>
             <button
               onClick={() => setActiveTab('style')}
@@ -81,9 +135,67 @@ const Controls: React.FC<ControlsProps> = ({ visible, config, onUpdate, onIntera
               <Sun size={20} />
               <span className="text-[10px] uppercase tracking-wider">Filter</span>
             </button>
+            <button
+              onClick={() => setActiveTab('library')}
+              className={`flex flex-col items-center space-y-1 transition-colors ${activeTab === 'library' ? 'text-blue-400' : 'text-gray-500 hover:text-white'}`}
+            >
+              <Images size={20} />
+              <span className="text-[10px] uppercase tracking-wider">Library</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('schedule')}
+              className={`flex flex-col items-center space-y-1 transition-colors ${activeTab === 'schedule' ? 'text-blue-400' : 'text-gray-500 hover:text-white'}`}
+            >
+              <Clock size={20} />
+              <span className="text-[10px] uppercase tracking-wider">Schedule</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('remote')}
+              className={`flex flex-col items-center space-y-1 transition-colors ${activeTab === 'remote' ? 'text-blue-400' : 'text-gray-500 hover:text-white'}`}
+            >
+              <Smartphone size={20} />
+              <span className="text-[10px] uppercase tracking-wider">Remote</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('sync')}
+              className={`flex flex-col items-center space-y-1 transition-colors ${activeTab === 'sync' ? 'text-blue-400' : 'text-gray-500 hover:text-white'}`}
+            >
+              <MonitorSmartphone size={20} />
+              <span className="text-[10px] uppercase tracking-wider">Sync</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('input')}
+              className={`flex flex-col items-center space-y-1 transition-colors ${activeTab === 'input' ? 'text-blue-400' : 'text-gray-500 hover:text-white'}`}
+            >
+              <Keyboard size={20} />
+              <span className="text-[10px] uppercase tracking-wider">Input</span>
+            </button>
           </div>
 
           <div className="flex items-center space-x-3">
+            {/* Rating the same way again clears it */}
+            <button
+              onClick={() => onRate(Rating.Like)}
+              className={`flex items-center justify-center w-10 h-10 rounded-full transition active:scale-95 ${rating === Rating.Like ? 'bg-red-500/20 text-red-400' : 'bg-white/10 hover:bg-white/20'}`}
+              aria-label={rating === Rating.Like ? 'Remove like' : 'Like'}
+            >
+              <Heart size={16} fill={rating === Rating.Like ? 'currentColor' : 'none'} />
+            </button>
+            <button
+              onClick={() => onRate(Rating.Dislike)}
+              className={`flex items-center justify-center w-10 h-10 rounded-full transition active:scale-95 ${rating === Rating.Dislike ? 'bg-amber-500/20 text-amber-400' : 'bg-white/10 hover:bg-white/20'}`}
+              aria-label={rating === Rating.Dislike ? 'Remove dislike' : 'Dislike'}
+            >
+              <ThumbsDown size={16} />
+            </button>
+            <button
+              onClick={() => onRate(Rating.Ban)}
+              className="flex items-center justify-center w-10 h-10 rounded-full bg-white/10 hover:bg-white/20 transition active:scale-95"
+              aria-label="Never show again"
+            >
+              <Ban size={16} />
+            </button>
+
             {/* Manual Next Button (useful when slideshow is off) */}
             <button
               onClick={onNext}
@@ -102,61 +214,69 @@ const Controls: React.FC<ControlsProps> = ({ visible, config, onUpdate, onIntera
           </div>
         </div>
 
+        {/* History Filmstrip */}
+        <HistoryStrip history={history} onJumpTo={onJumpTo} />
+
         {/* Dynamic Content Panel */}
-        <div className="min-h-[140px]">
+        <div className={`min-h-[140px] ${portrait ? 'max-h-[calc(var(--frame-height)*0.65)]' : 'max-h-[calc(var(--frame-height)*0.55)]'} overflow-y-auto scrollbar-hide`}>
 
-          {/* GENRE TAB */}
-          {activeTab === 'genre' && (
-            <div className="grid grid-cols-3 gap-2 md:grid-cols-6">
-              {Object.values(Genre).map((g) => (
-                <button
-                  key={g}
-                  onClick={() => onUpdate({ genre: g })}
-                  className={`p-3 rounded-lg text-xs font-medium border transition-all ${config.genre === g ? 'border-blue-500 bg-blue-500/20 text-blue-400' : 'border-white/10 bg-white/5 text-gray-400'}`}
-                >
-                  {g}
-                </button>
-              ))}
-            </div>
+          {/* PLAYLIST TAB */}
+          {activeTab === 'playlist' && (
+            <PlaylistPanel config={config} onUpdate={onUpdate} />
           )}
 
           {/* STYLE TAB (Frame & Interval) */}
           {activeTab === 'style' && (
             <div className="space-y-6">
-              {/* Frame Selector */}
+              {/* Frame Designer */}
+              <FramePanel config={config} onUpdate={onUpdate} />
+
+              {/* Layout Picker */}
               <div>
-                <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block">Frame Style</label>
+                <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block">Layout</label>
                 <div className="flex space-x-3 overflow-x-auto pb-2 scrollbar-hide">
-                  {Object.values(FrameStyle).map((style) => (
+                  {Object.values(LayoutMode).map((layout) => (
                     <button
-                      key={style}
-                      onClick={() => onUpdate({ frameStyle: style })}
-                      className={`flex-shrink-0 px-4 py-2 rounded-full text-xs border whitespace-nowrap ${config.frameStyle === style ? 'border-white bg-white text-black' : 'border-white/20 hover:border-white/50'}`}
+                      key={layout}
+                      onClick={() => onUpdate({ layout })}
+                      className={`flex-shrink-0 px-4 py-2 rounded-full text-xs border whitespace-nowrap ${config.layout === layout ? 'border-white bg-white text-black' : 'border-white/20 hover:border-white/50'}`}
                     >
-                      {style}
+                      {layout}
                     </button>
                   ))}
                 </div>
               </div>
 
-              {/* Frame Width Slider - Only show if frame is not None */}
-              {config.frameStyle !== FrameStyle.None && (
-                <div className="animate-fade-in">
-                  <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block flex items-center justify-between">
-                    <span>Frame Width</span>
-                    <span className="text-white">{config.frameWidth}px</span>
-                  </label>
-                  <input
-                    type="range"
-                    min="5"
-                    max="100"
-                    step="5"
-                    value={config.frameWidth}
-                    onChange={(e) => onUpdate({ frameWidth: parseInt(e.target.value) })}
-                    className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                  />
+              {/* Orientation - rotated settings are for displays mounted sideways or upside down */}
+              <div>
+                <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block">Orientation</label>
+                <div className="flex space-x-3 overflow-x-auto pb-2 scrollbar-hide">
+                  {Object.values(Orientation).map((orientation) => (
+                    <button
+                      key={orientation}
+                      onClick={() => onUpdate({ orientation })}
+                      className={`flex-shrink-0 px-4 py-2 rounded-full text-xs border whitespace-nowrap ${config.orientation === orientation ? 'border-white bg-white text-black' : 'border-white/20 hover:border-white/50'}`}
+                    >
+                      {orientation}
+                    </button>
+                  ))}
                 </div>
-              )}
+              </div>
+
+              {/* Fit Modes */}
+              <FitPanel
+                config={config}
+                previewUrl={previewUrl}
+                imageSettings={imageSettings}
+                onUpdate={onUpdate}
+                onUpdateImageSettings={onUpdateImageSettings}
+              />
+
+              {/* Caption */}
+              <CaptionPanel config={config} onUpdate={onUpdate} />
+
+              {/* Clock, date, weather and calendar over the picture */}
+              <WidgetsPanel config={config} onUpdate={onUpdate} />
 
               {/* Interval Slider - Only show if slideshow is enabled */}
               {config.isSlideshow && (
@@ -176,35 +296,152 @@ const Controls: React.FC<ControlsProps> = ({ visible, config, onUpdate, onIntera
                   />
                 </div>
               )}
-            </div>
-          )}
 
-          {/* FILTER TAB - PRESETS */}
-          {activeTab === 'filter' && (
-            <div>
-              <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block">Filter Presets</label>
-              <div className="grid grid-cols-3 md:grid-cols-4 gap-3">
-                {Object.values(FilterPreset).map((preset) => (
-                  <button
-                    key={preset}
-                    onClick={() => onUpdate({ filterPreset: preset })}
-                    className={`px-3 py-4 rounded-lg text-xs font-medium border transition-all flex flex-col items-center space-y-1 ${config.filterPreset === preset ? 'border-blue-500 bg-blue-500/20 text-blue-400' : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10'}`}
-                  >
-                    <div className={`w-4 h-4 rounded-full border border-white/20 mb-1`}
-                      style={{
-                        background: preset === FilterPreset.Original ? '#fff' :
-                          preset === FilterPreset.Noir ? '#333' :
-                            preset === FilterPreset.Vivid ? '#f0f' :
-                              preset === FilterPreset.Warm ? '#fb3' :
-                                preset === FilterPreset.Cool ? '#3bf' : '#888'
-                      }}
+              {/* Transition Picker */}
+              <div>
+                <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block">Transition</label>
+                <div className="flex space-x-3 overflow-x-auto pb-2 scrollbar-hide">
+                  {Object.values(TransitionEffect).map((effect) => (
+                    <button
+                      key={effect}
+                      onClick={() => onUpdate({ transitionEffect: effect })}
+                      className={`flex-shrink-0 px-4 py-2 rounded-full text-xs border whitespace-nowrap ${config.transitionEffect === effect ? 'border-white bg-white text-black' : 'border-white/20 hover:border-white/50'}`}
+                    >
+                      {effect}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {config.transitionEffect !== TransitionEffect.None && (
+                <div className="animate-fade-in space-y-4">
+                  <div>
+                    <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block flex items-center justify-between">
+                      <span>Transition Duration</span>
+                      <span className="text-white">{(config.transitionDuration / 1000).toFixed(1)}s</span>
+                    </label>
+                    <input
+                      type="range"
+                      min="200"
+                      max="4000"
+                      step="100"
+                      value={config.transitionDuration}
+                      onChange={(e) => onUpdate({ transitionDuration: parseInt(e.target.value) })}
+                      className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
                     />
-                    <span>{preset}</span>
-                  </button>
-                ))}
+                  </div>
+                  <div className="flex space-x-3 overflow-x-auto pb-2 scrollbar-hide">
+                    {Object.values(TransitionEasing).map((easing) => (
+                      <button
+                        key={easing}
+                        onClick={() => onUpdate({ transitionEasing: easing })}
+                        className={`flex-shrink-0 px-3 py-1 rounded-full text-[10px] border whitespace-nowrap ${config.transitionEasing === easing ? 'border-white bg-white text-black' : 'border-white/20 text-gray-400 hover:border-white/50'}`}
+                      >
+                        {easing}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* History Size Slider */}
+              <div>
+                <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block flex items-center justify-between">
+                  <span>History Size</span>
+                  <span className="text-white">{config.historySize} images</span>
+                </label>
+                <input
+                  type="range"
+                  min="10"
+                  max="200"
+                  step="10"
+                  value={config.historySize}
+                  onChange={(e) => onUpdate({ historySize: parseInt(e.target.value) })}
+                  className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+              </div>
+
+              {/* Prefetch Slider - images downloaded and decoded ahead of time */}
+              <div>
+                <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block flex items-center justify-between">
+                  <span>Load Ahead</span>
+                  <span className="text-white">{config.prefetchCount === 0 ? 'Off' : `${config.prefetchCount} images`}</span>
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="5"
+                  step="1"
+                  value={config.prefetchCount}
+                  onChange={(e) => onUpdate({ prefetchCount: parseInt(e.target.value) })}
+                  className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
               </div>
+
+              {/* Burn-in protection */}
+              <DisplayCarePanel config={config} onUpdate={onUpdate} />
+
+              {!locked && (
+                <ProfilesPanel
+                  profiles={profiles}
+                  config={config}
+                  onSave={onSaveProfile}
+                  onApply={onApplyProfile}
+                  onUpdate={onUpdateProfiles}
+                />
+              )}
+
+              {/* Reset - restores every setting, keeps history, ratings and profiles */}
+              {!locked && (
+                <button
+                  onClick={() => {
+                    if (window.confirm('Reset all settings and playlists to their defaults?')) onReset();
+                  }}
+                  className="flex items-center space-x-2 px-4 py-2 rounded-full text-xs border border-white/20 text-gray-400 hover:border-red-400 hover:text-red-400"
+                >
+                  <RotateCcw size={14} />
+                  <span>Reset to Defaults</span>
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* LIBRARY TAB */}
+          {activeTab === 'library' && (
+            <div className="space-y-6">
+              <LibraryPanel defaultTag={getActivePlaylist(config).name} onImported={onLibraryImport} />
+              <RatingsPanel ratings={ratings} onUpdate={onUpdateRatings} />
             </div>
           )}
+
+          {/* SCHEDULE TAB */}
+          {activeTab === 'schedule' && (
+            <SchedulePanel config={config} activeRuleIds={activeRuleIds} onUpdate={onUpdate} />
+          )}
+
+          {/* REMOTE TAB */}
+          {activeTab === 'remote' && (
+            <RemotePanel config={config} onUpdate={onUpdate} />
+          )}
+
+          {/* SYNC TAB */}
+          {activeTab === 'sync' && (
+            <SyncPanel config={config} leaderPresent={leaderPresent} onUpdate={onUpdate} />
+          )}
+
+          {/* INPUT TAB */}
+          {activeTab === 'input' && (
+            <div className="space-y-8">
+              <InputPanel config={config} captureAction={captureAction} onCaptureBinding={onCaptureBinding} onUpdate={onUpdate} />
+              <GesturePanel config={config} onUpdate={onUpdate} />
+              {!locked && <KioskPanel config={config} onUpdate={onUpdate} onLock={onLock} />}
+            </div>
+          )}
+
+          {/* FILTER TAB - PRESETS & ADJUSTMENTS */}
+          {activeTab === 'filter' && (
+            <FilterPanel config={config} previewUrl={previewUrl} onUpdate={onUpdate} />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,102 @@
+import React from 'react';
+import { AppConfig } from '../types';
+
+interface DisplayCarePanelProps {
+  config: AppConfig;
+  onUpdate: (newConfig: Partial<AppConfig>) => void;
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, display, min, max, step, onChange }) => (
+  <div>
+    <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block flex items-center justify-between">
+      <span>{label}</span>
+      <span className="text-white">{display}</span>
+    </label>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+    />
+  </div>
+);
+
+const DisplayCarePanel: React.FC<DisplayCarePanelProps> = ({ config, onUpdate }) => (
+  <div className="space-y-4">
+    <label className="text-xs text-gray-500 uppercase tracking-widest block">Display Care</label>
+    <p className="text-xs text-gray-500">
+      Protects OLED and plasma panels from burn-in. These settings belong to this frame's screen and aren't part of profiles.
+    </p>
+
+    <Slider
+      label="Pixel Shift"
+      value={config.pixelShift}
+      display={config.pixelShift > 0 ? `${config.pixelShift}px` : 'Off'}
+      min={0}
+      max={8}
+      step={1}
+      onChange={(pixelShift) => onUpdate({ pixelShift })}
+    />
+
+    <Slider
+      label="Longest Time per Image"
+      value={config.maxDwell}
+      display={config.maxDwell > 0 ? `${config.maxDwell} min` : 'No Limit'}
+      min={0}
+      max={120}
+      step={5}
+      onChange={(maxDwell) => onUpdate({ maxDwell })}
+    />
+
+    <Slider
+      label="Black Refresh Every"
+      value={config.blackRefreshInterval}
+      display={config.blackRefreshInterval > 0 ? `${config.blackRefreshInterval} h` : 'Off'}
+      min={0}
+      max={24}
+      step={1}
+      onChange={(blackRefreshInterval) => onUpdate({ blackRefreshInterval })}
+    />
+
+    {config.blackRefreshInterval > 0 && (
+      <Slider
+        label="Black For"
+        value={config.blackRefreshDuration}
+        display={`${config.blackRefreshDuration}s`}
+        min={5}
+        max={120}
+        step={5}
+        onChange={(blackRefreshDuration) => onUpdate({ blackRefreshDuration })}
+      />
+    )}
+
+    <Slider
+      label="Luminance Cap"
+      value={config.luminanceCap}
+      display={config.luminanceCap < 1 ? `${Math.round(config.luminanceCap * 100)}%` : 'Off'}
+      min={0.2}
+      max={1}
+      step={0.05}
+      onChange={(luminanceCap) => onUpdate({ luminanceCap })}
+    />
+    <p className="text-[10px] text-gray-500">
+      Bright images are dimmed until their average light level, with the brightness setting applied, stays under the cap.
+      Images whose pixels can't be read are dimmed as if they were white.
+    </p>
+  </div>
+);
+
+export default DisplayCarePanel;
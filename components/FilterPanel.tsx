@@ -0,0 +1,131 @@
+import React from 'react';
+import { AppConfig, FilterDefinition, ImageAdjustments } from '../types';
+import { createFilter, getActiveFilter, getFilters, isBuiltInFilter } from '../services/adjustments';
+import AdjustmentFilter from './AdjustmentFilter';
+import { Copy, Trash2 } from './Icon';
+
+interface FilterPanelProps {
+  config: AppConfig;
+  previewUrl: string | null;
+  onUpdate: (newConfig: Partial<AppConfig>) => void;
+}
+
+const SLIDERS: { key: keyof ImageAdjustments; label: string; min: number }[] = [
+  { key: 'exposure', label: 'Exposure', min: -1 },
+  { key: 'contrast', label: 'Contrast', min: -1 },
+  { key: 'saturation', label: 'Saturation', min: -1 },
+  { key: 'temperature', label: 'Temperature', min: -1 },
+  { key: 'tint', label: 'Tint', min: -1 },
+  { key: 'vignette', label: 'Vignette', min: 0 },
+  { key: 'grain', label: 'Grain', min: 0 },
+];
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ config, previewUrl, onUpdate }) => {
+  const filters = getFilters(config);
+  const active = getActiveFilter(config);
+  const editable = !isBuiltInFilter(active.id);
+
+  const updateActive = (patch: Partial<FilterDefinition>) => {
+    onUpdate({ customFilters: config.customFilters.map(f => (f.id === active.id ? { ...f, ...patch } : f)) });
+  };
+
+  const handleDuplicate = () => {
+    const copy = createFilter(`${active.name} Copy`, active.adjustments);
+    onUpdate({ customFilters: [...config.customFilters, copy], filterId: copy.id });
+  };
+
+  const handleDelete = () => {
+    onUpdate({ customFilters: config.customFilters.filter(f => f.id !== active.id), filterId: filters[0].id });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filter Grid with live previews of the current image */}
+      <div>
+        <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block">Filter Presets</label>
+        <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+          {filters.map((filter, index) => (
+            <button
+              key={filter.id}
+              onClick={() => onUpdate({ filterId: filter.id })}
+              className={`rounded-lg text-xs font-medium border transition-all overflow-hidden ${active.id === filter.id ? 'border-blue-500 text-blue-400' : 'border-white/10 text-gray-400 hover:border-white/30'}`}
+            >
+              <AdjustmentFilter id={`lumina-preview-${index}`} adjustments={filter.adjustments} />
+              <div className="relative w-full aspect-video bg-white/10">
+                {previewUrl && (
+                  <img
+                    src={previewUrl}
+                    alt=""
+                    className="w-full h-full object-cover"
+                    style={{ filter: `url(#lumina-preview-${index})` }}
+                  />
+                )}
+                {filter.adjustments.vignette > 0 && (
+                  <div
+                    className="absolute inset-0"
+                    style={{
+                      background: 'radial-gradient(ellipse at center, transparent 45%, black 100%)',
+                      opacity: filter.adjustments.vignette,
+                    }}
+                  />
+                )}
+              </div>
+              <span className="block px-2 py-1 truncate">{filter.name}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Adjustment Editor */}
+      <div className="space-y-3">
+        <div className="flex items-center space-x-3">
+          {editable ? (
+            <input
+              type="text"
+              value={active.name}
+              onChange={(e) => updateActive({ name: e.target.value })}
+              className="flex-1 px-3 py-2 rounded-lg text-xs bg-white/5 border border-white/10 focus:border-blue-500 outline-none"
+            />
+          ) : (
+            <span className="flex-1 text-xs text-gray-500">Built-in filters are read-only. Duplicate one to adjust it.</span>
+          )}
+          <button
+            onClick={handleDuplicate}
+            className="flex items-center space-x-2 px-4 py-2 rounded-full text-xs border border-white/20 hover:border-white/50"
+          >
+            <Copy size={14} />
+            <span>Duplicate</span>
+          </button>
+          {editable && (
+            <button onClick={handleDelete} className="text-gray-500 hover:text-red-400" aria-label="Delete filter">
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+          {SLIDERS.map(({ key, label, min }) => (
+            <div key={key}>
+              <label className="text-[10px] text-gray-500 uppercase tracking-widest mb-1 flex items-center justify-between">
+                <span>{label}</span>
+                <span className="text-white">{active.adjustments[key].toFixed(2)}</span>
+              </label>
+              <input
+                type="range"
+                min={min}
+                max="1"
+                step="0.05"
+                value={active.adjustments[key]}
+                disabled={!editable}
+                onChange={(e) => updateActive({ adjustments: { ...active.adjustments, [key]: parseFloat(e.target.value) } })}
+                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-40 disabled:cursor-default"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FilterPanel;
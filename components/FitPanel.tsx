@@ -0,0 +1,79 @@
+import React from 'react';
+import { AppConfig, FitMode, ImageDisplaySettings } from '../types';
+import { CENTER } from '../services/fitting';
+
+interface FitPanelProps {
+  config: AppConfig;
+  previewUrl: string | null;
+  imageSettings: ImageDisplaySettings | undefined;
+  onUpdate: (newConfig: Partial<AppConfig>) => void;
+  onUpdateImageSettings: (patch: ImageDisplaySettings) => void;
+}
+
+const FitPanel: React.FC<FitPanelProps> = ({ config, previewUrl, imageSettings, onUpdate, onUpdateImageSettings }) => {
+  const imageMode = imageSettings?.fitMode;
+  const focal = imageSettings?.focalPoint ?? CENTER;
+
+  // Tapping the preview moves the focal point and switches this image to focal-point fit
+  const handleFocalClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onUpdateImageSettings({
+      fitMode: FitMode.FocalPoint,
+      focalPoint: {
+        x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+        y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+      },
+    });
+  };
+
+  const chipClass = (selected: boolean) =>
+    `flex-shrink-0 px-4 py-2 rounded-full text-xs border whitespace-nowrap ${selected ? 'border-white bg-white text-black' : 'border-white/20 hover:border-white/50'}`;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block">Fit (All Images)</label>
+        <div className="flex space-x-3 overflow-x-auto pb-2 scrollbar-hide">
+          {Object.values(FitMode).filter(mode => mode !== FitMode.FocalPoint).map(mode => (
+            <button key={mode} onClick={() => onUpdate({ fitMode: mode })} className={chipClass(config.fitMode === mode)}>
+              {mode}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {previewUrl && (
+        <div className="flex items-start space-x-4">
+          <div
+            className="relative w-40 flex-shrink-0 rounded overflow-hidden cursor-crosshair"
+            onClick={handleFocalClick}
+          >
+            <img src={previewUrl} alt="Current image" className="w-full h-auto block" />
+            {imageMode === FitMode.FocalPoint && (
+              <span
+                className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white shadow pointer-events-none"
+                style={{ left: `${focal.x * 100}%`, top: `${focal.y * 100}%` }}
+              />
+            )}
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs text-gray-500 uppercase tracking-widest block">This Image</label>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => onUpdateImageSettings({ fitMode: undefined })} className={chipClass(imageMode === undefined)}>
+                Default
+              </button>
+              {Object.values(FitMode).filter(mode => mode !== FitMode.Auto).map(mode => (
+                <button key={mode} onClick={() => onUpdateImageSettings({ fitMode: mode })} className={chipClass(imageMode === mode)}>
+                  {mode}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-500">Tap the preview to set the focal point.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FitPanel;
@@ -0,0 +1,148 @@
+import React from 'react';
+import { AppConfig, FrameDefinition, FrameMaterial } from '../types';
+import { createFrame, getActiveFrame, getFrameStyles, getFrames, isBuiltInFrame } from '../services/frames';
+import { Copy, Trash2 } from './Icon';
+
+interface FramePanelProps {
+  config: AppConfig;
+  onUpdate: (newConfig: Partial<AppConfig>) => void;
+}
+
+const SLIDERS: { key: 'width' | 'matteWidth' | 'bevel' | 'shadowDepth'; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { key: 'width', label: 'Frame Width', min: 0, max: 120, step: 2, unit: 'px' },
+  { key: 'matteWidth', label: 'Matte Width', min: 0, max: 200, step: 4, unit: 'px' },
+  { key: 'bevel', label: 'Bevel', min: 0, max: 12, step: 1, unit: 'px' },
+  { key: 'shadowDepth', label: 'Shadow Depth', min: 0, max: 1, step: 0.05, unit: '' },
+];
+
+const FramePanel: React.FC<FramePanelProps> = ({ config, onUpdate }) => {
+  const frames = getFrames(config);
+  const active = getActiveFrame(config);
+  const editable = !isBuiltInFrame(active.id);
+
+  const updateActive = (patch: Partial<FrameDefinition>) => {
+    onUpdate({ customFrames: config.customFrames.map(f => (f.id === active.id ? { ...f, ...patch } : f)) });
+  };
+
+  const handleDuplicate = () => {
+    const copy = createFrame(`${active.name} Copy`, active);
+    onUpdate({ customFrames: [...config.customFrames, copy], frameId: copy.id });
+  };
+
+  const handleDelete = () => {
+    onUpdate({ customFrames: config.customFrames.filter(f => f.id !== active.id), frameId: frames[0].id });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Frame Selector with miniature swatches */}
+      <div>
+        <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block">Frame</label>
+        <div className="flex space-x-3 overflow-x-auto pb-2 scrollbar-hide">
+          {frames.map((frame) => {
+            const styles = getFrameStyles({ ...frame, width: Math.min(frame.width, 4), matteWidth: Math.min(frame.matteWidth, 4), bevel: 0 });
+            return (
+              <button
+                key={frame.id}
+                onClick={() => onUpdate({ frameId: frame.id })}
+                className={`flex-shrink-0 flex items-center space-x-2 pl-1 pr-4 py-1 rounded-full text-xs border whitespace-nowrap ${active.id === frame.id ? 'border-white bg-white text-black' : 'border-white/20 hover:border-white/50'}`}
+              >
+                <span className="w-6 h-6 rounded-full overflow-hidden" style={styles.frame}>
+                  <span className="block w-full h-full" style={styles.matte}>
+                    <span className="block w-full h-full bg-gray-500" />
+                  </span>
+                </span>
+                <span>{frame.name}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-3">
+        {editable ? (
+          <input
+            type="text"
+            value={active.name}
+            onChange={(e) => updateActive({ name: e.target.value })}
+            className="flex-1 px-3 py-2 rounded-lg text-xs bg-white/5 border border-white/10 focus:border-blue-500 outline-none"
+          />
+        ) : (
+          <span className="flex-1 text-xs text-gray-500">Built-in frames are read-only. Duplicate one to design your own.</span>
+        )}
+        <button
+          onClick={handleDuplicate}
+          className="flex items-center space-x-2 px-4 py-2 rounded-full text-xs border border-white/20 hover:border-white/50"
+        >
+          <Copy size={14} />
+          <span>Duplicate</span>
+        </button>
+        {editable && (
+          <button onClick={handleDelete} className="text-gray-500 hover:text-red-400" aria-label="Delete frame">
+            <Trash2 size={16} />
+          </button>
+        )}
+      </div>
+
+      <label className="text-xs text-gray-500 uppercase tracking-widest flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={config.dynamicMatte}
+          onChange={(e) => onUpdate({ dynamicMatte: e.target.checked })}
+          className="accent-blue-500"
+        />
+        <span>Matte Color From Image</span>
+      </label>
+      {config.dynamicMatte && active.matteWidth === 0 && (
+        <p className="text-[10px] text-gray-500">This frame has no matte. Pick one with a matte, or give yours a matte width.</p>
+      )}
+
+      {/* Frame Designer */}
+      {editable && (
+        <div className="space-y-3 animate-fade-in">
+          <div className="flex flex-wrap items-center gap-3">
+            {Object.values(FrameMaterial).map(material => (
+              <button
+                key={material}
+                onClick={() => updateActive({ material })}
+                className={`px-3 py-1 rounded-full text-[10px] border ${active.material === material ? 'border-white bg-white text-black' : 'border-white/20 text-gray-400'}`}
+              >
+                {material}
+              </button>
+            ))}
+            <label className="flex items-center space-x-2 text-[10px] text-gray-500 uppercase tracking-widest">
+              <span>Frame</span>
+              <input type="color" value={active.color} onChange={(e) => updateActive({ color: e.target.value })} className="w-6 h-6 bg-transparent" />
+            </label>
+            <label className="flex items-center space-x-2 text-[10px] text-gray-500 uppercase tracking-widest">
+              <span>Matte</span>
+              <input type="color" value={active.matteColor} onChange={(e) => updateActive({ matteColor: e.target.value })} className="w-6 h-6 bg-transparent" />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+            {SLIDERS.map(({ key, label, min, max, step, unit }) => (
+              <div key={key}>
+                <label className="text-[10px] text-gray-500 uppercase tracking-widest mb-1 flex items-center justify-between">
+                  <span>{label}</span>
+                  <span className="text-white">{active[key]}{unit}</span>
+                </label>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={active[key]}
+                  onChange={(e) => updateActive({ [key]: parseFloat(e.target.value) })}
+                  className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FramePanel;
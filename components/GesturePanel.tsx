@@ -0,0 +1,64 @@
+import React from 'react';
+import { AppConfig, GestureTarget, GestureType, GestureZone } from '../types';
+import { bindGesture, getGestureBindings, getGestureOptions } from '../services/gestures';
+import { RotateCcw } from './Icon';
+
+interface GesturePanelProps {
+  config: AppConfig;
+  onUpdate: (newConfig: Partial<AppConfig>) => void;
+}
+
+const GesturePanel: React.FC<GesturePanelProps> = ({ config, onUpdate }) => {
+  const bindings = getGestureBindings(config);
+  const zones = Object.values(GestureZone);
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs text-gray-500 uppercase tracking-widest block">Gestures</label>
+      <p className="text-xs text-gray-500">
+        What each touch or mouse gesture does in the left, middle and right third of the screen. A mouse click is a
+        tap, holding the button a long press and dragging a swipe; ctrl + scroll pinches.
+      </p>
+
+      <div className="grid grid-cols-[auto_1fr_1fr_1fr] gap-2 items-center">
+        <span />
+        {zones.map(zone => (
+          <span key={zone} className="text-[10px] text-gray-500 uppercase tracking-wider text-center">{zone}</span>
+        ))}
+
+        {Object.values(GestureType).map(gesture => (
+          <React.Fragment key={gesture}>
+            <span className="text-xs whitespace-nowrap pr-2">{gesture}</span>
+            {zones.map(zone => (
+              <select
+                key={zone}
+                value={bindings[zone][gesture] ?? getGestureOptions(gesture)[0]}
+                onChange={(e) => onUpdate({ gestureBindings: bindGesture(bindings, zone, gesture, e.target.value as GestureTarget) })}
+                className="min-w-0 w-full px-2 py-1 rounded-lg text-[10px] bg-white/5 border border-white/10 outline-none"
+                aria-label={`${gesture}, ${zone}`}
+              >
+                {getGestureOptions(gesture).map(target => (
+                  <option key={target} value={target}>{target}</option>
+                ))}
+              </select>
+            ))}
+          </React.Fragment>
+        ))}
+      </div>
+
+      <p className="text-[10px] text-gray-500">
+        Where a drag is set, swiping up or down drags instead. Single taps wait briefly where a double tap is set.
+      </p>
+
+      <button
+        onClick={() => onUpdate({ gestureBindings: {} })}
+        className="flex items-center space-x-2 text-xs text-gray-500 hover:text-white pt-2"
+      >
+        <RotateCcw size={12} />
+        <span>Default Gestures</span>
+      </button>
+    </div>
+  );
+};
+
+export default GesturePanel;
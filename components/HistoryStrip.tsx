@@ -0,0 +1,43 @@
+import React, { useEffect, useRef } from 'react';
+import { HistoryState } from '../services/history';
+
+interface HistoryStripProps {
+  history: HistoryState;
+  onJumpTo: (index: number) => void;
+}
+
+const HistoryStrip: React.FC<HistoryStripProps> = ({ history, onJumpTo }) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the current image in view as the history grows
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', inline: 'center' });
+  }, [history.index]);
+
+  if (history.images.length < 2) return null;
+
+  return (
+    <div className="flex space-x-2 overflow-x-auto pb-2 mb-4 scrollbar-hide">
+      {history.images.map((image, index) => (
+        <button
+          key={`${image.id}-${index}`}
+          ref={index === history.index ? activeRef : undefined}
+          onClick={() => onJumpTo(index)}
+          className={`flex-shrink-0 w-16 h-10 rounded overflow-hidden border-2 transition-opacity ${index === history.index ? 'border-blue-500' : 'border-transparent opacity-50 hover:opacity-100'}`}
+          aria-label={`Show image ${index + 1} of ${history.images.length}`}
+        >
+          <img
+            src={image.url}
+            alt=""
+            loading="lazy"
+            // Older cached copies are released; the original address still works online
+            onError={(e) => { if (image.remoteUrl && e.currentTarget.src !== image.remoteUrl) e.currentTarget.src = image.remoteUrl; }}
+            className="w-full h-full object-cover"
+          />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default HistoryStrip;
@@ -11,7 +11,28 @@ import {
   Sun,
   Aperture,
   Droplet,
-  MoveHorizontal
+  MoveHorizontal,
+  Images,
+  Trash2,
+  Upload,
+  FolderOpen,
+  Plus,
+  X,
+  Heart,
+  RotateCcw,
+  Moon,
+  ChevronDown,
+  ChevronUp,
+  Copy,
+  Smartphone,
+  MonitorSmartphone,
+  Keyboard,
+  ThumbsDown,
+  Ban,
+  Download,
+  Check,
+  Lock,
+  Delete
 } from 'lucide-react';
 
 // Export icons for use in other files
@@ -27,5 +48,26 @@ export {
   Sun,
   Aperture,
   Droplet,
-  MoveHorizontal
+  MoveHorizontal,
+  Images,
+  Trash2,
+  Upload,
+  FolderOpen,
+  Plus,
+  X,
+  Heart,
+  RotateCcw,
+  Moon,
+  ChevronDown,
+  ChevronUp,
+  Copy,
+  Smartphone,
+  MonitorSmartphone,
+  Keyboard,
+  ThumbsDown,
+  Ban,
+  Download,
+  Check,
+  Lock,
+  Delete
 };
\ No newline at end of file
@@ -0,0 +1,61 @@
+import React from 'react';
+import { AppConfig, InputAction } from '../types';
+import { formatInputToken, getBindings, unbindToken } from '../services/input';
+import { Plus, RotateCcw, X } from './Icon';
+
+interface InputPanelProps {
+  config: AppConfig;
+  captureAction: InputAction | null; // waiting for a key or button for this action
+  onCaptureBinding: (action: InputAction | null) => void;
+  onUpdate: (newConfig: Partial<AppConfig>) => void;
+}
+
+const InputPanel: React.FC<InputPanelProps> = ({ config, captureAction, onCaptureBinding, onUpdate }) => {
+  const bindings = getBindings(config);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        Keys, TV remote buttons and gamepad buttons for each action. Arrow keys or the D-pad move between controls
+        in this menu, Enter or A presses them, Escape, Back or B closes it.
+      </p>
+
+      {Object.values(InputAction).map(action => (
+        <div key={action} className="flex items-center justify-between space-x-4">
+          <span className="text-xs whitespace-nowrap">{action}</span>
+          <div className="flex flex-wrap justify-end gap-2">
+            {bindings[action].map(token => (
+              <span key={token} className="flex items-center space-x-1 pl-3 pr-1 py-1 rounded-full text-[10px] border border-white/20">
+                <span>{formatInputToken(token)}</span>
+                <button
+                  onClick={() => onUpdate({ keyBindings: unbindToken(bindings, action, token) })}
+                  className="p-0.5 text-gray-500 hover:text-white"
+                  aria-label={`Remove ${formatInputToken(token)}`}
+                >
+                  <X size={10} />
+                </button>
+              </span>
+            ))}
+            <button
+              onClick={() => onCaptureBinding(captureAction === action ? null : action)}
+              className={`flex items-center space-x-1 px-3 py-1 rounded-full text-[10px] border ${captureAction === action ? 'border-blue-400 text-blue-400 animate-pulse' : 'border-white/20 text-gray-400 hover:border-white/50'}`}
+            >
+              <Plus size={10} />
+              <span>{captureAction === action ? 'Press a key...' : 'Add'}</span>
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onUpdate({ keyBindings: {} })}
+        className="flex items-center space-x-2 text-xs text-gray-500 hover:text-white pt-2"
+      >
+        <RotateCcw size={12} />
+        <span>Default Bindings</span>
+      </button>
+    </div>
+  );
+};
+
+export default InputPanel;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { AppConfig, KioskPermission } from '../types';
+import { UNLOCK_SEQUENCE, isValidPin } from '../services/kiosk';
+import { Lock } from './Icon';
+
+interface KioskPanelProps {
+  config: AppConfig;
+  onUpdate: (newConfig: Partial<AppConfig>) => void;
+  onLock: () => void;
+}
+
+const KioskPanel: React.FC<KioskPanelProps> = ({ config, onUpdate, onLock }) => {
+  // Typed here first: only a complete PIN (or none) is saved and asked for
+  const [pinDraft, setPinDraft] = useState<string>(config.kioskPin);
+  const pinInvalid = pinDraft !== '' && !isValidPin(pinDraft);
+
+  const updatePin = (pin: string) => {
+    setPinDraft(pin);
+    if (pin === '' || isValidPin(pin)) onUpdate({ kioskPin: pin });
+  };
+
+  const togglePermission = (permission: KioskPermission, allowed: boolean) => {
+    onUpdate({
+      kioskAllowed: allowed
+        ? [...config.kioskAllowed, permission]
+        : config.kioskAllowed.filter(existing => existing !== permission),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="text-xs text-gray-500 uppercase tracking-widest flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={config.kioskEnabled}
+          onChange={(e) => onUpdate({ kioskEnabled: e.target.checked })}
+          className="accent-blue-500"
+        />
+        <span>Kiosk Mode</span>
+      </label>
+      <p className="text-xs text-gray-500">
+        For frames in public places. Once locked, only what's allowed below works, and the settings return to how
+        they were locked after a while without input. To unlock, long-press the {UNLOCK_SEQUENCE.join(', ').toLowerCase()} side
+        of the picture in turn within ten seconds, then enter the PIN. The frame locks again when the menu closes.
+      </p>
+
+      {config.kioskEnabled && (
+        <>
+          <div className="flex items-center space-x-3">
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              placeholder="PIN (4 to 8 digits)"
+              value={pinDraft}
+              onChange={(e) => updatePin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+              className={`flex-1 min-w-0 px-3 py-2 rounded-lg text-xs bg-white/5 border outline-none ${pinInvalid ? 'border-red-400' : 'border-white/10 focus:border-blue-500'}`}
+            />
+            <button
+              onClick={onLock}
+              disabled={pinInvalid}
+              className="flex items-center space-x-2 px-4 py-2 rounded-full text-xs border border-white/20 hover:border-white/50 disabled:opacity-40"
+            >
+              <Lock size={14} />
+              <span>Lock Now</span>
+            </button>
+          </div>
+          <p className="text-[10px] text-gray-500">
+            {pinInvalid
+              ? `The PIN needs at least 4 digits. Until then ${config.kioskPin ? 'the previous PIN stays' : 'the long presses alone unlock'}.`
+              : config.kioskPin ? 'The PIN is kept on this frame only.' : 'Without a PIN the long presses alone unlock.'}
+          </p>
+
+          <div>
+            <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block">Allowed While Locked</label>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {Object.values(KioskPermission).map(permission => (
+                <label key={permission} className="flex items-center space-x-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={config.kioskAllowed.includes(permission)}
+                    onChange={(e) => togglePermission(permission, e.target.checked)}
+                    className="accent-blue-500"
+                  />
+                  <span>{permission}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block flex items-center justify-between">
+              <span>Revert After</span>
+              <span className="text-white">{config.kioskRevertAfter > 0 ? `${config.kioskRevertAfter} min idle` : 'Never'}</span>
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="60"
+              step="1"
+              value={config.kioskRevertAfter}
+              onChange={(e) => onUpdate({ kioskRevertAfter: parseInt(e.target.value) })}
+              className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default KioskPanel;
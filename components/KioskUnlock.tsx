@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Delete, X } from './Icon';
+
+interface KioskUnlockProps {
+  onSubmit: (pin: string) => string | null; // error to show, null once unlocked
+  onClose: () => void;
+}
+
+const MAX_DIGITS = 8;
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'delete', '0', 'submit'];
+
+/**
+ * PIN pad shown after the unlock sequence. Digits come from taps, a keyboard or the
+ * number keys of a TV remote; arrows move between the keys and Enter presses one.
+ */
+const KioskUnlock: React.FC<KioskUnlockProps> = ({ onSubmit, onClose }) => {
+  const [pin, setPin] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const firstRef = useRef<HTMLButtonElement>(null);
+  const submitRef = useRef<HTMLButtonElement>(null);
+  useEffect(() => firstRef.current?.focus(), []);
+
+  const press = (key: string) => {
+    setError(null);
+    if (key === 'delete') setPin(prev => prev.slice(0, -1));
+    else if (key === 'submit') {
+      setError(onSubmit(pin));
+      setPin('');
+    } else setPin(prev => (prev.length < MAX_DIGITS ? prev + key : prev));
+  };
+  const pressRef = useRef(press);
+  pressRef.current = press;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (/^\d$/.test(e.key)) pressRef.current(e.key);
+      else if (e.key === 'Backspace') pressRef.current('delete');
+      else return;
+      e.preventDefault();
+      // Enter then presses the unlock key, not whichever key had focus
+      submitRef.current?.focus();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const keyClass = 'h-12 rounded-full flex items-center justify-center text-lg bg-white/10 hover:bg-white/20 transition active:scale-95 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div
+      data-no-gestures
+      className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 animate-fade-in cursor-auto"
+      onClick={onClose}
+    >
+      <div
+        data-focus-scope="unlock"
+        className="w-64 space-y-4 bg-black/80 backdrop-blur-md border border-white/10 rounded-3xl p-5 text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-400 uppercase tracking-widest">Enter PIN</span>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 rounded-full" aria-label="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="h-6 flex items-center justify-center space-x-2" aria-live="polite">
+          {pin.length > 0
+            ? Array.from(pin).map((_, i) => <span key={i} className="w-2.5 h-2.5 rounded-full bg-white" />)
+            : <span className={`text-xs ${error ? 'text-red-400' : 'text-gray-500'}`}>{error ?? ' '}</span>}
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          {KEYS.map((key, index) => (
+            <button
+              key={key}
+              ref={index === 0 ? firstRef : key === 'submit' ? submitRef : undefined}
+              onClick={() => press(key)}
+              className={key === 'submit' ? `${keyClass} bg-blue-500/80 hover:bg-blue-500` : keyClass}
+              aria-label={key === 'delete' ? 'Delete digit' : key === 'submit' ? 'Unlock' : undefined}
+            >
+              {key === 'delete' ? <Delete size={18} /> : key === 'submit' ? <Check size={18} /> : key}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KioskUnlock;
@@ -0,0 +1,197 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Genre, LibraryImage } from '../types';
+import { addImages, deleteImage, listImages, updateImageTags } from '../services/libraryStore';
+import { revokeLibraryImageUrl } from '../services/providers/localProvider';
+import { Trash2, Upload, FolderOpen } from './Icon';
+
+interface LibraryPanelProps {
+  defaultTag: string;
+  onImported: () => void;
+}
+
+const NEW_ALBUM = '__new__';
+
+const LibraryPanel: React.FC<LibraryPanelProps> = ({ defaultTag, onImported }) => {
+  const [images, setImages] = useState<LibraryImage[]>([]);
+  const [importTag, setImportTag] = useState<string>(defaultTag);
+  const [newAlbum, setNewAlbum] = useState<string>('');
+  const [filterTag, setFilterTag] = useState<string | null>(null);
+  const [importing, setImporting] = useState<boolean>(false);
+  const [dragOver, setDragOver] = useState<boolean>(false);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setImages(await listImages());
+    } catch (error) {
+      console.error('Could not read library:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Genres first, then any custom albums already in use
+  const tags = useMemo(() => {
+    const albums = new Set<string>();
+    images.forEach(image => image.tags.forEach(tag => albums.add(tag)));
+    albums.add(defaultTag);
+    Object.values(Genre).forEach(genre => albums.delete(genre));
+    return [...Object.values(Genre), ...Array.from(albums).sort()];
+  }, [images, defaultTag]);
+
+  const visibleImages = useMemo(
+    () => (filterTag ? images.filter(image => image.tags.includes(filterTag)) : images),
+    [images, filterTag]
+  );
+
+  // Thumbnail object URLs are recreated with the list and released on change
+  const thumbnailUrls = useMemo(
+    () => new Map(visibleImages.map(image => [image.id, URL.createObjectURL(image.thumbnail)])),
+    [visibleImages]
+  );
+  useEffect(() => () => thumbnailUrls.forEach(url => URL.revokeObjectURL(url)), [thumbnailUrls]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const tag = importTag === NEW_ALBUM ? newAlbum.trim() : importTag;
+    if (!tag) return;
+
+    setImporting(true);
+    const added = await addImages(files, [tag]);
+    setImporting(false);
+    await refresh();
+    if (added.length > 0) onImported();
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteImage(id);
+    revokeLibraryImageUrl(id);
+    await refresh();
+  };
+
+  const handleRetag = async (id: string, tag: string) => {
+    await updateImageTags(id, [tag]);
+    await refresh();
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragOver(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Import Row */}
+      <div
+        className={`flex flex-wrap items-center gap-3 p-3 rounded-lg border border-dashed transition-colors ${dragOver ? 'border-blue-500 bg-blue-500/10' : 'border-white/20'}`}
+        onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={handleDrop}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+        />
+        <input
+          ref={(el) => {
+            folderInputRef.current = el;
+            el?.setAttribute('webkitdirectory', '');
+          }}
+          type="file"
+          className="hidden"
+          onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center space-x-2 px-4 py-2 rounded-full text-xs border border-white/20 hover:border-white/50"
+        >
+          <Upload size={14} />
+          <span>Photos</span>
+        </button>
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          className="flex items-center space-x-2 px-4 py-2 rounded-full text-xs border border-white/20 hover:border-white/50"
+        >
+          <FolderOpen size={14} />
+          <span>Folder</span>
+        </button>
+
+        <select
+          value={importTag}
+          onChange={(e) => setImportTag(e.target.value)}
+          className="px-3 py-2 rounded-lg text-xs bg-white/5 border border-white/10 outline-none"
+        >
+          {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+          <option value={NEW_ALBUM}>New album…</option>
+        </select>
+        {importTag === NEW_ALBUM && (
+          <input
+            type="text"
+            placeholder="Album name"
+            value={newAlbum}
+            onChange={(e) => setNewAlbum(e.target.value)}
+            className="px-3 py-2 rounded-lg text-xs bg-white/5 border border-white/10 focus:border-blue-500 outline-none"
+          />
+        )}
+
+        <span className="text-xs text-gray-500">
+          {importing ? 'Importing…' : 'or drop images here'}
+        </span>
+      </div>
+
+      {/* Tag Filter */}
+      <div className="flex space-x-2 overflow-x-auto pb-1 scrollbar-hide">
+        {[null, ...tags].map(tag => (
+          <button
+            key={tag ?? 'all'}
+            onClick={() => setFilterTag(tag)}
+            className={`flex-shrink-0 px-3 py-1 rounded-full text-[10px] border whitespace-nowrap ${filterTag === tag ? 'border-white bg-white text-black' : 'border-white/20 text-gray-400'}`}
+          >
+            {tag ?? `All (${images.length})`}
+          </button>
+        ))}
+      </div>
+
+      {/* Thumbnail Grid */}
+      {visibleImages.length === 0 ? (
+        <p className="text-xs text-gray-500 py-6 text-center">No images in the library yet.</p>
+      ) : (
+        <div className="grid grid-cols-4 md:grid-cols-6 gap-2 max-h-48 overflow-y-auto">
+          {visibleImages.map(image => (
+            <div key={image.id} className="relative group rounded-md overflow-hidden bg-white/5">
+              <img src={thumbnailUrls.get(image.id)} alt={image.name} className="w-full aspect-square object-cover" />
+              <div className="absolute inset-x-0 bottom-0 flex items-center bg-black/70 p-1 space-x-1">
+                <select
+                  value={image.tags[0] ?? ''}
+                  onChange={(e) => handleRetag(image.id, e.target.value)}
+                  className="flex-1 min-w-0 bg-transparent text-[10px] outline-none"
+                >
+                  {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                </select>
+                <button
+                  onClick={() => handleDelete(image.id)}
+                  className="text-gray-400 hover:text-red-400"
+                  aria-label={`Delete ${image.name}`}
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryPanel;
@@ -0,0 +1,212 @@
+import React from 'react';
+import { AppConfig, ImageSourceId, Playlist, PlaylistItem, PlaylistOrdering, SequenceMode } from '../types';
+import { getProviders } from '../services/imageProviders';
+import { createPlaylist, createPlaylistItem, getActivePlaylist } from '../services/playlists';
+import { Plus, Trash2, X } from './Icon';
+
+interface PlaylistPanelProps {
+  config: AppConfig;
+  onUpdate: (newConfig: Partial<AppConfig>) => void;
+}
+
+const ORDERINGS: PlaylistOrdering[] = ['sequential', 'shuffle', 'weighted'];
+
+const QUERY_PLACEHOLDERS: Record<ImageSourceId, string> = {
+  picsum: 'Theme, e.g. Mountains',
+  local: 'Library album or genre',
+  manifest: 'https://example.com/manifest.json',
+  gemini: 'Prompt theme',
+  url: 'https://example.com/image.jpg',
+};
+
+const PlaylistPanel: React.FC<PlaylistPanelProps> = ({ config, onUpdate }) => {
+  const playlist = getActivePlaylist(config);
+
+  const updatePlaylist = (patch: Partial<Playlist>) => {
+    onUpdate({
+      playlists: config.playlists.map(p => (p.id === playlist.id ? { ...p, ...patch } : p)),
+    });
+  };
+
+  const updateItem = (id: string, patch: Partial<PlaylistItem>) => {
+    updatePlaylist({ items: playlist.items.map(item => (item.id === id ? { ...item, ...patch } : item)) });
+  };
+
+  const handleCreate = () => {
+    const created = createPlaylist(`Playlist ${config.playlists.length + 1}`, [createPlaylistItem()]);
+    onUpdate({ playlists: [...config.playlists, created], playlistId: created.id });
+  };
+
+  const handleDelete = () => {
+    const remaining = config.playlists.filter(p => p.id !== playlist.id);
+    onUpdate({ playlists: remaining, playlistId: remaining[0].id });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Playlist Selector */}
+      <div className="grid grid-cols-3 gap-2 md:grid-cols-6">
+        {config.playlists.map((p) => (
+          <button
+            key={p.id}
+            onClick={() => onUpdate({ playlistId: p.id })}
+            className={`p-3 rounded-lg text-xs font-medium border transition-all truncate ${playlist.id === p.id ? 'border-blue-500 bg-blue-500/20 text-blue-400' : 'border-white/10 bg-white/5 text-gray-400'}`}
+          >
+            {p.name}
+          </button>
+        ))}
+        <button
+          onClick={handleCreate}
+          className="p-3 rounded-lg text-xs font-medium border border-dashed border-white/20 text-gray-400 hover:text-white flex items-center justify-center"
+          aria-label="New playlist"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {/* Playlist Editor */}
+      <div className="space-y-4">
+        <div className="flex items-center space-x-3">
+          <input
+            type="text"
+            value={playlist.name}
+            onChange={(e) => updatePlaylist({ name: e.target.value })}
+            className="flex-1 px-3 py-2 rounded-lg text-xs bg-white/5 border border-white/10 focus:border-blue-500 outline-none"
+          />
+          <div className="flex space-x-1">
+            {ORDERINGS.map(ordering => (
+              <button
+                key={ordering}
+                onClick={() => updatePlaylist({ ordering })}
+                className={`px-3 py-2 rounded-full text-[10px] uppercase tracking-wider border ${playlist.ordering === ordering ? 'border-white bg-white text-black' : 'border-white/20 text-gray-400'}`}
+              >
+                {ordering}
+              </button>
+            ))}
+          </div>
+          {config.playlists.length > 1 && (
+            <button
+              onClick={handleDelete}
+              className="text-gray-500 hover:text-red-400"
+              aria-label="Delete playlist"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+
+        {/* Interval Override */}
+        <label className="text-xs text-gray-500 uppercase tracking-widest flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={playlist.interval !== undefined}
+              onChange={(e) => updatePlaylist({ interval: e.target.checked ? config.interval : undefined })}
+              className="accent-blue-500"
+            />
+            <span>Own Interval</span>
+          </span>
+          {playlist.interval !== undefined && <span className="text-white">{playlist.interval}s</span>}
+        </label>
+        {playlist.interval !== undefined && (
+          <input
+            type="range"
+            min="5"
+            max="300"
+            step="5"
+            value={playlist.interval}
+            onChange={(e) => updatePlaylist({ interval: parseInt(e.target.value) })}
+            className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+        )}
+
+        {/* Sequence: which of the images loaded ahead plays next, for every playlist */}
+        <div>
+          <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block">Sequence</label>
+          <div className="flex space-x-3 overflow-x-auto pb-2 scrollbar-hide">
+            {Object.values(SequenceMode).map(sequenceMode => (
+              <button
+                key={sequenceMode}
+                onClick={() => onUpdate({ sequenceMode })}
+                className={`flex-shrink-0 px-4 py-2 rounded-full text-xs border whitespace-nowrap ${config.sequenceMode === sequenceMode ? 'border-white bg-white text-black' : 'border-white/20 hover:border-white/50'}`}
+              >
+                {sequenceMode}
+              </button>
+            ))}
+          </div>
+          {config.sequenceMode !== SequenceMode.Random && (
+            <p className="text-[10px] text-gray-500">
+              {config.sequenceMode === SequenceMode.ColorFlow
+                ? 'Each image is the one closest in color to the last, out of several loaded ahead.'
+                : 'Darker images in the evening and at night, brighter ones during the day.'}
+            </p>
+          )}
+        </div>
+
+        {/* Favorites only: plays liked images instead of the sources below */}
+        <label className="text-xs text-gray-500 uppercase tracking-widest flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={Boolean(playlist.favoritesOnly)}
+            onChange={(e) => updatePlaylist({ favoritesOnly: e.target.checked || undefined })}
+            className="accent-blue-500"
+          />
+          <span>Favorites Only</span>
+        </label>
+
+        {/* Items */}
+        {!playlist.favoritesOnly && (
+          <div className="space-y-2 max-h-40 overflow-y-auto">
+            {playlist.items.map(item => (
+              <div key={item.id} className="flex items-center space-x-2">
+                <select
+                  value={item.source}
+                  onChange={(e) => updateItem(item.id, { source: e.target.value as ImageSourceId })}
+                  className="px-2 py-2 rounded-lg text-xs bg-white/5 border border-white/10 outline-none"
+                >
+                  {getProviders().map(provider => (
+                    <option key={provider.id} value={provider.id}>{provider.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={item.query}
+                  placeholder={QUERY_PLACEHOLDERS[item.source]}
+                  onChange={(e) => updateItem(item.id, { query: e.target.value })}
+                  className="flex-1 min-w-0 px-3 py-2 rounded-lg text-xs bg-white/5 border border-white/10 focus:border-blue-500 outline-none"
+                />
+                {playlist.ordering === 'weighted' && (
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={item.weight}
+                    onChange={(e) => updateItem(item.id, { weight: Math.max(0, Number(e.target.value)) })}
+                    className="w-14 px-2 py-2 rounded-lg text-xs bg-white/5 border border-white/10 outline-none"
+                    aria-label="Weight"
+                  />
+                )}
+                <button
+                  onClick={() => updatePlaylist({ items: playlist.items.filter(i => i.id !== item.id) })}
+                  className="text-gray-500 hover:text-red-400"
+                  aria-label="Remove item"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => updatePlaylist({ items: [...playlist.items, createPlaylistItem()] })}
+              className="flex items-center space-x-2 px-4 py-2 rounded-full text-xs border border-white/20 hover:border-white/50"
+            >
+              <Plus size={14} />
+              <span>Add Source</span>
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlaylistPanel;
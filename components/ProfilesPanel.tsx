@@ -0,0 +1,124 @@
+import React, { useRef, useState } from 'react';
+import { AppConfig, Profile } from '../types';
+import { exportProfile, parseProfile, upsertProfile } from '../services/profiles';
+import { Check, Download, Plus, Trash2, Upload } from './Icon';
+
+interface ProfilesPanelProps {
+  profiles: Profile[];
+  config: AppConfig; // imported settings are checked against it
+  onSave: (name: string) => void;
+  onApply: (profile: Profile) => void;
+  onUpdate: (profiles: Profile[]) => void;
+}
+
+// File name safe version of a profile name
+const toFileName = (name: string) => `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile'}.json`;
+
+const ProfilesPanel: React.FC<ProfilesPanelProps> = ({ profiles, config, onSave, onApply, onUpdate }) => {
+  const [name, setName] = useState<string>('');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setMessage(`Saved "${name.trim()}"`);
+    setName('');
+  };
+
+  const handleExport = (profile: Profile) => {
+    const url = URL.createObjectURL(new Blob([exportProfile(profile)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = toFileName(profile.name);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const profile = parseProfile(await file.text(), config);
+      onUpdate(upsertProfile(profiles, profile));
+      setMessage(`Imported "${profile.name}"`);
+    } catch (error) {
+      setMessage(`${file.name}: ${error instanceof Error ? error.message : 'could not be imported'}`);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs text-gray-500 uppercase tracking-widest block">Profiles</label>
+      <p className="text-xs text-gray-500">
+        Playlists, frames, filters, schedule and settings under a name, to apply later or export to other frames.
+        Open the frame with <span className="text-gray-300">?profile=</span> and a profile name or file URL to start with it.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="text"
+          placeholder="Profile name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+          className="flex-1 min-w-0 px-3 py-2 rounded-lg text-xs bg-white/5 border border-white/10 focus:border-blue-500 outline-none"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="flex items-center space-x-2 px-4 py-2 rounded-full text-xs border border-white/20 hover:border-white/50 disabled:opacity-40"
+        >
+          <Plus size={14} />
+          <span>Save Current</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center space-x-2 px-4 py-2 rounded-full text-xs border border-white/20 hover:border-white/50"
+        >
+          <Upload size={14} />
+          <span>Import</span>
+        </button>
+      </div>
+      {message && <p className="text-xs text-gray-400">{message}</p>}
+
+      {profiles.length > 0 && (
+        <div className="space-y-2">
+          {profiles.map(profile => (
+            <div key={profile.id} className="flex items-center space-x-3 px-3 py-2 rounded-lg bg-white/5">
+              <div className="flex-1 min-w-0">
+                <p className="text-xs truncate">{profile.name}</p>
+                <p className="text-[10px] text-gray-500">{new Date(profile.savedAt).toLocaleString()}</p>
+              </div>
+              <button
+                onClick={() => { onApply(profile); setMessage(`Applied "${profile.name}"`); }}
+                className="flex items-center space-x-1 px-3 py-1.5 rounded-full text-[10px] uppercase tracking-wider border border-white/20 hover:border-white/50"
+              >
+                <Check size={12} />
+                <span>Apply</span>
+              </button>
+              <button onClick={() => handleExport(profile)} className="text-gray-400 hover:text-white" aria-label={`Export ${profile.name}`}>
+                <Download size={14} />
+              </button>
+              <button
+                onClick={() => onUpdate(profiles.filter(p => p.id !== profile.id))}
+                className="text-gray-500 hover:text-red-400"
+                aria-label={`Delete ${profile.name}`}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfilesPanel;
@@ -0,0 +1,32 @@
+import React, { useMemo } from 'react';
+import { encodeQrCode } from '../services/qrCode';
+
+// Light border in modules; the caption card around it adds more
+const QUIET_ZONE = 2;
+
+interface QrCodeProps {
+  text: string;
+  size: number; // px
+}
+
+/**
+ * Renders `text` as a QR code, or nothing when it is too long to encode.
+ */
+const QrCode: React.FC<QrCodeProps> = ({ text, size }) => {
+  const modules = useMemo(() => encodeQrCode(text), [text]);
+  if (!modules) return null;
+
+  const extent = modules.length + QUIET_ZONE * 2;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z` : '')))
+    .join('');
+
+  return (
+    <svg viewBox={`0 0 ${extent} ${extent}`} width={size} height={size} shapeRendering="crispEdges" aria-label="QR code">
+      <rect width={extent} height={extent} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
+
+export default QrCode;
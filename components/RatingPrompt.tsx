@@ -0,0 +1,56 @@
+import React, { useEffect, useRef } from 'react';
+import { Rating } from '../types';
+import { Ban, Heart, ThumbsDown, X } from './Icon';
+
+interface RatingPromptProps {
+  rating: Rating | null; // of the current image
+  onRate: (rating: Rating) => void;
+  onClose: () => void;
+}
+
+const OPTIONS: { rating: Rating; label: string; icon: React.ReactNode }[] = [
+  { rating: Rating.Like, label: 'Like', icon: <Heart size={20} /> },
+  { rating: Rating.Dislike, label: 'Dislike', icon: <ThumbsDown size={20} /> },
+  { rating: Rating.Ban, label: 'Never Show Again', icon: <Ban size={20} /> },
+];
+
+/**
+ * Rating choices for the current image, opened by a long press or the Rate Image key.
+ * The first choice takes focus so remotes can rate right away.
+ */
+const RatingPrompt: React.FC<RatingPromptProps> = ({ rating, onRate, onClose }) => {
+  const firstRef = useRef<HTMLButtonElement>(null);
+  useEffect(() => firstRef.current?.focus(), []);
+
+  return (
+    // Tapping anywhere outside the choices closes the prompt instead of reaching the gestures
+    <div
+      data-no-gestures
+      className="absolute inset-0 z-50 flex items-center justify-center bg-black/40 animate-fade-in cursor-auto"
+      onClick={onClose}
+    >
+      <div
+        data-focus-scope="rating"
+        className="flex items-center space-x-3 bg-black/80 backdrop-blur-md border border-white/10 rounded-full p-2 text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {OPTIONS.map((option, index) => (
+          <button
+            key={option.rating}
+            ref={index === 0 ? firstRef : undefined}
+            onClick={() => onRate(option.rating)}
+            className={`flex items-center space-x-2 px-4 py-2.5 rounded-full text-xs transition active:scale-95 focus:outline-none focus:ring-2 focus:ring-blue-500 ${rating === option.rating ? 'bg-white text-black' : 'bg-white/10 hover:bg-white/20'}`}
+          >
+            {option.icon}
+            <span>{option.label}</span>
+          </button>
+        ))}
+        <button onClick={onClose} className="p-2.5 text-gray-400 hover:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 rounded-full" aria-label="Close">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RatingPrompt;
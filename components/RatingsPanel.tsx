@@ -0,0 +1,78 @@
+import React, { useRef, useState } from 'react';
+import { Rating } from '../types';
+import { Ratings, clearRatings, countRatings, exportRatings, mergeRatings, parseRatings } from '../services/ratings';
+import { Download, Upload } from './Icon';
+
+interface RatingsPanelProps {
+  ratings: Ratings;
+  onUpdate: (ratings: Ratings) => void;
+}
+
+const RatingsPanel: React.FC<RatingsPanelProps> = ({ ratings, onUpdate }) => {
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const counts = countRatings(ratings);
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportRatings(ratings)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'lumina-ratings.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseRatings(await file.text());
+      onUpdate(mergeRatings(ratings, imported));
+      setMessage(`Imported ${Object.keys(imported).length} ratings`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Could not import ratings');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs text-gray-500 uppercase tracking-widest block">Ratings</label>
+      <p className="text-xs text-gray-500">
+        {counts[Rating.Like]} liked · {counts[Rating.Dislike]} disliked · {counts[Rating.Ban]} never shown again
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }}
+        />
+        <button
+          onClick={handleExport}
+          className="flex items-center space-x-2 px-4 py-2 rounded-full text-xs border border-white/20 hover:border-white/50"
+        >
+          <Download size={14} />
+          <span>Export</span>
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center space-x-2 px-4 py-2 rounded-full text-xs border border-white/20 hover:border-white/50"
+        >
+          <Upload size={14} />
+          <span>Import</span>
+        </button>
+        <button
+          onClick={() => onUpdate(clearRatings(ratings, Rating.Ban))}
+          disabled={counts[Rating.Ban] === 0}
+          className="px-4 py-2 rounded-full text-xs border border-white/20 hover:border-white/50 disabled:opacity-40"
+        >
+          Clear Bans
+        </button>
+        {message && <span className="text-xs text-gray-400">{message}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default RatingsPanel;
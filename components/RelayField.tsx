@@ -0,0 +1,26 @@
+import React from 'react';
+import { AppConfig } from '../types';
+
+interface RelayFieldProps {
+  config: AppConfig;
+  onUpdate: (newConfig: Partial<AppConfig>) => void;
+  hint: string; // what works without a relay
+}
+
+// The relay is shared by remote control and sync groups
+const RelayField: React.FC<RelayFieldProps> = ({ config, onUpdate, hint }) => (
+  <div>
+    <label className="text-xs text-gray-500 uppercase tracking-widest mb-2 block">Relay (other devices)</label>
+    <input
+      value={config.relayUrl}
+      onChange={(e) => onUpdate({ relayUrl: e.target.value.trim() })}
+      placeholder="ws://192.168.1.10:8787"
+      className="w-full px-3 py-2 rounded-lg text-xs bg-white/5 border border-white/10 outline-none"
+    />
+    <p className="text-[10px] text-gray-500 mt-1">
+      {hint} Start a relay with <span className="text-white">npm run relay</span>.
+    </p>
+  </div>
+);
+
+export default RelayField;
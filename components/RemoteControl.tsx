@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppConfig } from '../types';
+import { RemoteChannel, RemoteCommand, RemoteConfigKey, RemoteState, isPairingCode, openRemoteChannel } from '../services/remote';
+import { ImageIcon, Moon, Pause, Play, RotateCcw } from './Icon';
+
+// Ask again until the frame answers; covers a relay socket that was still connecting
+const HELLO_INTERVAL_MS = 2000;
+
+interface RemoteControlProps {
+  initialCode: string;
+  relayUrl: string;
+}
+
+/**
+ * The page a phone or second tab opens to drive a frame (`?remote=<code>`).
+ */
+const RemoteControl: React.FC<RemoteControlProps> = ({ initialCode, relayUrl }) => {
+  const [code, setCode] = useState<string>(isPairingCode(initialCode) ? initialCode : '');
+  const [codeInput, setCodeInput] = useState<string>('');
+  const [state, setState] = useState<RemoteState | null>(null);
+  const channelRef = useRef<RemoteChannel | null>(null);
+
+  useEffect(() => {
+    if (!code) return;
+    setState(null);
+    const channel = openRemoteChannel(code, relayUrl, 'remote', message => setState(message.state));
+    channelRef.current = channel;
+    channel.send({ type: 'hello' });
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [code, relayUrl]);
+
+  const connected = state !== null;
+  useEffect(() => {
+    if (!code || connected) return;
+    const timer = window.setInterval(() => channelRef.current?.send({ type: 'hello' }), HELLO_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [code, connected]);
+
+  const send = (command: RemoteCommand) => channelRef.current?.send(command);
+  const update = (patch: Partial<Pick<AppConfig, RemoteConfigKey>>) => send({ type: 'updateConfig', patch });
+
+  if (!code) {
+    return (
+      <div className="w-screen h-screen bg-black text-white flex items-center justify-center p-8">
+        <form
+          className="w-full max-w-xs space-y-4 text-center"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (isPairingCode(codeInput)) setCode(codeInput);
+          }}
+        >
+          <label className="text-xs text-gray-500 uppercase tracking-widest block">Pairing Code</label>
+          <input
+            value={codeInput}
+            onChange={(e) => setCodeInput(e.target.value.replace(/\D/g, '').slice(0, 6))}
+            inputMode="numeric"
+            autoFocus
+            className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-center text-2xl tracking-[0.5em] outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!isPairingCode(codeInput)}
+            className="w-full py-3 rounded-full bg-white text-black text-sm disabled:opacity-30"
+          >
+            Connect
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-screen h-screen overflow-y-auto bg-black text-white/90">
+      <div className="safe-area-padding max-w-md mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-500 uppercase tracking-widest">Frame {code}</span>
+          <span className={`text-[10px] uppercase tracking-wider ${connected ? 'text-green-400' : 'text-gray-500 animate-pulse'}`}>
+            {connected ? (state.sleeping ? 'Sleeping' : 'Connected') : 'Waiting for frame...'}
+          </span>
+        </div>
+
+        <div className="aspect-video rounded-xl overflow-hidden bg-white/5 flex items-center justify-center">
+          {state?.imageUrl ? (
+            <img src={state.imageUrl} alt="Now showing" className="w-full h-full object-cover" />
+          ) : (
+            state?.sleeping ? <Moon size={24} className="text-gray-600" /> : <ImageIcon size={24} className="text-gray-600" />
+          )}
+        </div>
+
+        {state && (
+          <>
+            <div className="flex items-center justify-center space-x-4">
+              <button
+                onClick={() => send({ type: 'previous' })}
+                className="px-6 py-3 rounded-full bg-white/10 active:scale-95 text-xs font-medium"
+              >
+                BACK
+              </button>
+              <button
+                onClick={() => update({ isSlideshow: !state.config.isSlideshow })}
+                className={`w-12 h-12 flex items-center justify-center rounded-full active:scale-95 ${state.config.isSlideshow ? 'bg-blue-500/20 text-blue-400' : 'bg-white/10'}`}
+                aria-label={state.config.isSlideshow ? 'Pause slideshow' : 'Start slideshow'}
+              >
+                {state.config.isSlideshow ? <Pause size={18} /> : <Play size={18} />}
+              </button>
+              <button
+                onClick={() => send({ type: 'next' })}
+                className="px-6 py-3 rounded-full bg-white/10 active:scale-95 text-xs font-medium"
+              >
+                NEXT
+              </button>
+            </div>
+
+            <div>
+              <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block flex items-center justify-between">
+                <span>Brightness</span>
+                <span className="text-white">{Math.round(state.config.brightness * 100)}%</span>
+              </label>
+              <input
+                type="range"
+                min="0.1"
+                max="2"
+                step="0.05"
+                value={state.config.brightness}
+                onChange={(e) => update({ brightness: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+
+            {state.config.isSlideshow && (
+              <div>
+                <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block flex items-center justify-between">
+                  <span>Change Every</span>
+                  <span className="text-white">{state.config.interval}s</span>
+                </label>
+                <input
+                  type="range"
+                  min="5"
+                  max="60"
+                  step="5"
+                  value={state.config.interval}
+                  onChange={(e) => update({ interval: parseInt(e.target.value) })}
+                  className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block">Playlist</label>
+              <div className="space-y-2">
+                {state.playlists.map(playlist => (
+                  <button
+                    key={playlist.id}
+                    onClick={() => send({ type: 'selectPlaylist', playlistId: playlist.id })}
+                    className={`w-full text-left px-4 py-3 rounded-xl text-sm border ${state.config.playlistId === playlist.id ? 'border-white bg-white text-black' : 'border-white/10 bg-white/5'}`}
+                  >
+                    {playlist.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        <button
+          onClick={() => setCode('')}
+          className="flex items-center space-x-2 text-xs text-gray-500 hover:text-white"
+        >
+          <RotateCcw size={12} />
+          <span>Pair with another frame</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RemoteControl;
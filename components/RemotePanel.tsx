@@ -0,0 +1,53 @@
+import React from 'react';
+import { AppConfig } from '../types';
+import { createPairingCode } from '../services/remote';
+import { RotateCcw } from './Icon';
+import RelayField from './RelayField';
+
+interface RemotePanelProps {
+  config: AppConfig;
+  onUpdate: (newConfig: Partial<AppConfig>) => void;
+}
+
+const RemotePanel: React.FC<RemotePanelProps> = ({ config, onUpdate }) => {
+  const remoteUrl = new URL(window.location.pathname, window.location.origin);
+  remoteUrl.searchParams.set('remote', config.remoteCode);
+  if (config.relayUrl) remoteUrl.searchParams.set('relay', config.relayUrl);
+
+  return (
+    <div className="space-y-4">
+      <label className="text-xs text-gray-500 uppercase tracking-widest flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={config.remoteEnabled}
+          onChange={(e) => onUpdate({ remoteEnabled: e.target.checked })}
+          className="accent-blue-500"
+        />
+        <span>Allow Remote Control</span>
+      </label>
+
+      {config.remoteEnabled && (
+        <div className="animate-fade-in space-y-4">
+          <div className="flex items-center space-x-4">
+            <span className="text-3xl font-light tracking-[0.4em] tabular-nums">{config.remoteCode}</span>
+            <button
+              onClick={() => onUpdate({ remoteCode: createPairingCode() })}
+              className="flex items-center space-x-1 px-3 py-1.5 rounded-full text-xs border border-white/20 hover:border-white/50"
+            >
+              <RotateCcw size={12} />
+              <span>New Code</span>
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Open <span className="text-white break-all">{remoteUrl.toString()}</span> on a phone or in another tab,
+            or open <span className="text-white">?remote</span> and enter the code. A new code disconnects paired remotes.
+          </p>
+
+          <RelayField config={config} onUpdate={onUpdate} hint="Without a relay only tabs in this browser can pair." />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RemotePanel;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { AppConfig, ScheduleOverrides, ScheduleRule } from '../types';
+import { createScheduleRule } from '../services/schedule';
+import { getFilters } from '../services/adjustments';
+import { ChevronDown, ChevronUp, Moon, Plus, Trash2 } from './Icon';
+
+interface SchedulePanelProps {
+  config: AppConfig;
+  activeRuleIds: string[];
+  onUpdate: (newConfig: Partial<AppConfig>) => void;
+}
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const SchedulePanel: React.FC<SchedulePanelProps> = ({ config, activeRuleIds, onUpdate }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const updateRule = (id: string, patch: Partial<ScheduleRule>) => {
+    onUpdate({ schedule: config.schedule.map(rule => (rule.id === id ? { ...rule, ...patch } : rule)) });
+  };
+
+  // Passing undefined removes the override, so the setting follows the normal config again
+  const updateOverride = <K extends keyof ScheduleOverrides>(rule: ScheduleRule, field: K, value: ScheduleOverrides[K] | undefined) => {
+    const overrides = { ...rule.overrides };
+    if (value === undefined) delete overrides[field];
+    else overrides[field] = value;
+    updateRule(rule.id, { overrides });
+  };
+
+  const toggleDay = (rule: ScheduleRule, day: number) => {
+    const days = rule.days.includes(day) ? rule.days.filter(d => d !== day) : [...rule.days, day].sort();
+    updateRule(rule.id, { days });
+  };
+
+  const handleAdd = () => {
+    const rule = createScheduleRule(`Rule ${config.schedule.length + 1}`);
+    onUpdate({ schedule: [...config.schedule, rule] });
+    setExpandedId(rule.id);
+  };
+
+  const selectClass = "px-2 py-1 rounded-lg text-xs bg-white/5 border border-white/10 outline-none";
+
+  return (
+    <div className="space-y-4">
+      <label className="text-xs text-gray-500 uppercase tracking-widest flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={config.scheduleEnabled}
+          onChange={(e) => onUpdate({ scheduleEnabled: e.target.checked })}
+          className="accent-blue-500"
+        />
+        <span>Follow Schedule</span>
+      </label>
+
+      {config.schedule.length === 0 && (
+        <p className="text-xs text-gray-500">
+          No rules yet. Rules change the playlist, filter, brightness or slideshow during a time window, or put the frame to sleep.
+        </p>
+      )}
+
+      {config.schedule.map(rule => {
+        const expanded = expandedId === rule.id;
+        const active = activeRuleIds.includes(rule.id);
+
+        return (
+          <div key={rule.id} className={`rounded-lg border ${active ? 'border-blue-500/60' : 'border-white/10'} bg-white/5`}>
+            {/* Rule Header */}
+            <div className="flex items-center space-x-3 p-3">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                className="accent-blue-500"
+                aria-label="Enable rule"
+              />
+              <input
+                type="text"
+                value={rule.name}
+                onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                className="flex-1 min-w-0 bg-transparent text-xs outline-none"
+              />
+              {rule.overrides.sleep && <Moon size={14} className="text-gray-400" />}
+              <span className="text-[10px] text-gray-400">{rule.start}–{rule.end}</span>
+              {active && <span className="text-[10px] uppercase tracking-wider text-blue-400">Active</span>}
+              <button onClick={() => setExpandedId(expanded ? null : rule.id)} className="text-gray-400" aria-label="Edit rule">
+                {expanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+              </button>
+              <button
+                onClick={() => onUpdate({ schedule: config.schedule.filter(r => r.id !== rule.id) })}
+                className="text-gray-500 hover:text-red-400"
+                aria-label="Delete rule"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+
+            {expanded && (
+              <div className="px-3 pb-3 space-y-3 animate-fade-in">
+                {/* Window */}
+                <div className="flex flex-wrap items-center gap-2">
+                  <input type="time" value={rule.start} onChange={(e) => updateRule(rule.id, { start: e.target.value })} className={selectClass} />
+                  <span className="text-xs text-gray-500">to</span>
+                  <input type="time" value={rule.end} onChange={(e) => updateRule(rule.id, { end: e.target.value })} className={selectClass} />
+                  <div className="flex space-x-1">
+                    {DAY_LABELS.map((label, day) => (
+                      <button
+                        key={day}
+                        onClick={() => toggleDay(rule, day)}
+                        className={`w-6 h-6 rounded-full text-[10px] border ${rule.days.includes(day) ? 'border-white bg-white text-black' : 'border-white/20 text-gray-400'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Sleep */}
+                <label className="flex items-center space-x-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(rule.overrides.sleep)}
+                    onChange={(e) => updateOverride(rule, 'sleep', e.target.checked || undefined)}
+                    className="accent-blue-500"
+                  />
+                  <span>Sleep (black screen, screen may turn off)</span>
+                </label>
+
+                {!rule.overrides.sleep && (
+                  <div className="grid grid-cols-2 gap-2 text-xs">
+                    <select
+                      value={rule.overrides.playlistId ?? ''}
+                      onChange={(e) => updateOverride(rule, 'playlistId', e.target.value || undefined)}
+                      className={selectClass}
+                    >
+                      <option value="">Playlist: unchanged</option>
+                      {config.playlists.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    <select
+                      value={rule.overrides.filterId ?? ''}
+                      onChange={(e) => updateOverride(rule, 'filterId', e.target.value || undefined)}
+                      className={selectClass}
+                    >
+                      <option value="">Filter: unchanged</option>
+                      {getFilters(config).map(filter => <option key={filter.id} value={filter.id}>{filter.name}</option>)}
+                    </select>
+                    <select
+                      value={rule.overrides.isSlideshow === undefined ? '' : String(rule.overrides.isSlideshow)}
+                      onChange={(e) => updateOverride(rule, 'isSlideshow', e.target.value === '' ? undefined : e.target.value === 'true')}
+                      className={selectClass}
+                    >
+                      <option value="">Slideshow: unchanged</option>
+                      <option value="true">Slideshow: on</option>
+                      <option value="false">Slideshow: off</option>
+                    </select>
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={rule.overrides.brightness !== undefined}
+                        onChange={(e) => updateOverride(rule, 'brightness', e.target.checked ? 0.5 : undefined)}
+                        className="accent-blue-500"
+                      />
+                      <span className="text-gray-400">Brightness</span>
+                      {rule.overrides.brightness !== undefined && (
+                        <input
+                          type="range"
+                          min="0.1"
+                          max="2"
+                          step="0.1"
+                          value={rule.overrides.brightness}
+                          onChange={(e) => updateOverride(rule, 'brightness', parseFloat(e.target.value))}
+                          className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                        />
+                      )}
+                    </label>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={handleAdd}
+        className="flex items-center space-x-2 px-4 py-2 rounded-full text-xs border border-white/20 hover:border-white/50"
+      >
+        <Plus size={14} />
+        <span>Add Rule</span>
+      </button>
+    </div>
+  );
+};
+
+export default SchedulePanel;
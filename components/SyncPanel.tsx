@@ -0,0 +1,111 @@
+import React from 'react';
+import { AppConfig, SyncMode, SyncRole } from '../types';
+import { normalizeGroupName } from '../services/sync';
+import RelayField from './RelayField';
+
+interface SyncPanelProps {
+  config: AppConfig;
+  leaderPresent: boolean;
+  onUpdate: (newConfig: Partial<AppConfig>) => void;
+}
+
+const MAX_PANELS = 8;
+
+const SyncPanel: React.FC<SyncPanelProps> = ({ config, leaderPresent, onUpdate }) => {
+  const isLeader = config.syncRole === SyncRole.Leader;
+  const group = normalizeGroupName(config.syncGroup);
+
+  const chipClass = (selected: boolean) =>
+    `flex-shrink-0 px-4 py-2 rounded-full text-xs border whitespace-nowrap ${selected ? 'border-white bg-white text-black' : 'border-white/20 hover:border-white/50'}`;
+
+  let status = '';
+  if (config.syncRole !== SyncRole.Off && !group) status = 'Enter a group name.';
+  else if (isLeader) status = `Leading "${group}". Followers change together with this frame.`;
+  else if (config.syncRole === SyncRole.Follower) {
+    status = leaderPresent
+      ? `Following the leader of "${group}".`
+      : `No leader in "${group}" right now; playing on its own until it is back.`;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block">This Frame</label>
+        <div className="flex space-x-3 overflow-x-auto pb-2 scrollbar-hide">
+          {Object.values(SyncRole).map(role => (
+            <button key={role} onClick={() => onUpdate({ syncRole: role })} className={chipClass(config.syncRole === role)}>
+              {role}
+            </button>
+          ))}
+        </div>
+        {status && <p className="text-xs text-gray-500 mt-1">{status}</p>}
+      </div>
+
+      {config.syncRole !== SyncRole.Off && (
+        <div className="animate-fade-in space-y-4">
+          <div>
+            <label className="text-xs text-gray-500 uppercase tracking-widest mb-2 block">Group</label>
+            <input
+              value={config.syncGroup}
+              onChange={(e) => onUpdate({ syncGroup: e.target.value })}
+              placeholder="living-room"
+              className="w-full px-3 py-2 rounded-lg text-xs bg-white/5 border border-white/10 outline-none"
+            />
+          </div>
+
+          {isLeader && (
+            <div>
+              <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block">Mode</label>
+              <div className="flex space-x-3 overflow-x-auto pb-2 scrollbar-hide">
+                {Object.values(SyncMode).map(mode => (
+                  <button key={mode} onClick={() => onUpdate({ syncMode: mode })} className={chipClass(config.syncMode === mode)}>
+                    {mode}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {isLeader && config.syncMode !== SyncMode.Mirror && (
+            <div>
+              <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block flex items-center justify-between">
+                <span>Frames in Group</span>
+                <span className="text-white">{config.syncPanels}</span>
+              </label>
+              <input
+                type="range"
+                min="2"
+                max={MAX_PANELS}
+                step="1"
+                value={config.syncPanels}
+                onChange={(e) => onUpdate({ syncPanels: parseInt(e.target.value) })}
+                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="text-xs text-gray-500 uppercase tracking-widest mb-3 block flex items-center justify-between">
+              <span>Position (Panorama & Sequence)</span>
+              <span className="text-white">{config.syncPosition + 1}</span>
+            </label>
+            <input
+              type="range"
+              min="0"
+              max={MAX_PANELS - 1}
+              step="1"
+              value={config.syncPosition}
+              onChange={(e) => onUpdate({ syncPosition: parseInt(e.target.value) })}
+              className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+            <p className="text-[10px] text-gray-500 mt-1">1 is the leftmost frame.</p>
+          </div>
+
+          <RelayField config={config} onUpdate={onUpdate} hint="Without a relay only tabs in this browser join the group." />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncPanel;
@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TransitionEasing, TransitionEffect } from '../types';
+import { TransitionDirection, getTransitionStyles } from '../services/transitions';
+import { ResolvedFit } from '../services/fitting';
+
+interface TransitionStageProps {
+  imageUrl: string | null;
+  effect: TransitionEffect;
+  duration: number; // ms
+  easing: TransitionEasing;
+  displayDuration: number; // ms
+  direction: TransitionDirection;
+  imageStyle: React.CSSProperties;
+  fit: ResolvedFit; // applies to the incoming image; outgoing ones keep theirs
+}
+
+interface Layer {
+  key: number;
+  url: string;
+  phase: 'enter' | 'active' | 'exit';
+  fit: ResolvedFit;
+}
+
+/**
+ * Keeps the outgoing and incoming image on screen together while they transition.
+ * New layers mount in their "enter" pose and switch to "active" on the next frame,
+ * so the browser animates between the two with plain CSS transitions.
+ */
+const TransitionStage: React.FC<TransitionStageProps> = ({ imageUrl, effect, duration, easing, displayDuration, direction, imageStyle, fit }) => {
+  const [layers, setLayers] = useState<Layer[]>(() => (imageUrl ? [{ key: 0, url: imageUrl, phase: 'active', fit }] : []));
+  const nextKeyRef = useRef<number>(1);
+  const frameRef = useRef<number | null>(null);
+  const cleanupTimerRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!imageUrl) {
+      setLayers([]);
+      return;
+    }
+
+    const key = nextKeyRef.current++;
+    const animate = effect !== TransitionEffect.None && duration > 0;
+
+    setLayers(prev => {
+      if (prev.some(layer => layer.url === imageUrl && layer.phase !== 'exit')) return prev;
+      if (!animate || prev.length === 0) return [{ key, url: imageUrl, phase: 'active', fit }];
+      // Layers still leaving from an interrupted transition are dropped right away
+      return [
+        ...prev.filter(layer => layer.phase !== 'exit').map(layer => ({ ...layer, phase: 'exit' as const })),
+        { key, url: imageUrl, phase: 'enter', fit },
+      ];
+    });
+
+    if (!animate) return;
+
+    // Two frames: the first paints the enter pose, the second starts the transition
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = requestAnimationFrame(() => {
+        setLayers(prev => prev.map(layer => (layer.key === key ? { ...layer, phase: 'active' } : layer)));
+      });
+    });
+
+    if (cleanupTimerRef.current) clearTimeout(cleanupTimerRef.current);
+    cleanupTimerRef.current = window.setTimeout(() => {
+      setLayers(prev => prev.filter(layer => layer.phase !== 'exit'));
+    }, duration + 50);
+
+    return () => {
+      if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    };
+  }, [imageUrl]);
+
+  // Fit changes for the image on screen (e.g. a new focal point) apply in place
+  useEffect(() => {
+    setLayers(prev => prev.map(layer => (layer.url === imageUrl && layer.phase !== 'exit' ? { ...layer, fit } : layer)));
+  }, [fit.mode, fit.position]);
+
+  useEffect(() => () => {
+    if (cleanupTimerRef.current) clearTimeout(cleanupTimerRef.current);
+  }, []);
+
+  return (
+    <>
+      {layers.map(layer => {
+        const styles = getTransitionStyles(effect, { duration, easing, displayDuration, direction, seed: layer.key });
+        const pose = layer.phase === 'enter'
+          ? styles.enterFrom
+          : layer.phase === 'exit'
+            ? { ...styles.enterTo, ...styles.exitTo }
+            : styles.enterTo;
+
+        return (
+          <div
+            key={layer.key}
+            className="absolute inset-0 will-change-transform"
+            style={{ ...pose, transition: styles.transition, zIndex: layer.phase === 'exit' ? 0 : 1 }}
+          >
+            {/* Contained images sit on a blurred, darkened copy instead of black bars */}
+            {layer.fit.mode === 'contain' && (
+              <img
+                src={layer.url}
+                alt=""
+                aria-hidden="true"
+                className="absolute inset-0 w-full h-full object-cover scale-110"
+                style={{ filter: 'blur(40px) brightness(0.6)' }}
+              />
+            )}
+            <img
+              src={layer.url}
+              alt="Art"
+              className={`relative w-full h-full ${layer.fit.mode === 'contain' ? 'object-contain' : 'object-cover'}`}
+              style={{ ...imageStyle, objectPosition: layer.fit.position, transition: 'object-position 0.5s ease-out' }}
+            />
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default TransitionStage;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { RotateCcw, X } from './Icon';
+
+interface UpdatePromptProps {
+  onApply: () => void;
+  onDismiss: () => void;
+}
+
+const UpdatePrompt: React.FC<UpdatePromptProps> = ({ onApply, onDismiss }) => (
+  <div
+    data-no-gestures
+    className="absolute bottom-6 right-6 z-50 flex items-center space-x-4 bg-black/80 backdrop-blur-md border border-white/10 rounded-full pl-5 pr-2 py-2 text-white text-xs animate-fade-in cursor-auto"
+    onClick={(e) => e.stopPropagation()}
+  >
+    <span className="tracking-wide">A new version is available</span>
+    <button
+      onClick={onApply}
+      className="flex items-center space-x-1 px-3 py-1.5 rounded-full bg-white text-black"
+    >
+      <RotateCcw size={12} />
+      <span>Reload</span>
+    </button>
+    <button onClick={onDismiss} className="p-1.5 text-gray-400 hover:text-white" aria-label="Later">
+      <X size={14} />
+    </button>
+  </div>
+);
+
+export default UpdatePrompt;
@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AppConfig, WidgetPosition, WidgetType } from '../types';
+import { CalendarEvent, EventOccurrence, fetchCalendar, getUpcomingEvents, loadCalendarFile, parseICal } from '../services/calendar';
+import { RegionLuminance, WIDGET_FONT_CLASSES, WeatherReport, fetchWeather, getContrastStyle, getWidgetSettings, measureRegionLuminance } from '../services/widgets';
+
+const WEATHER_REFRESH_MS = 10 * 60 * 1000;
+const CALENDAR_REFRESH_MS = 30 * 60 * 1000;
+// Events shown, and how far ahead they may be
+const EVENT_LIMIT = 3;
+const EVENT_DAYS = 7;
+
+const POSITION_CLASSES: Record<WidgetPosition, string> = {
+  [WidgetPosition.TopLeft]: 'top-8 left-8 items-start text-left',
+  [WidgetPosition.TopCenter]: 'top-8 left-1/2 -translate-x-1/2 items-center text-center',
+  [WidgetPosition.TopRight]: 'top-8 right-8 items-end text-right',
+  [WidgetPosition.BottomLeft]: 'bottom-8 left-8 items-start text-left',
+  [WidgetPosition.BottomCenter]: 'bottom-8 left-1/2 -translate-x-1/2 items-center text-center',
+  [WidgetPosition.BottomRight]: 'bottom-8 right-8 items-end text-right',
+};
+
+interface WidgetLayerProps {
+  config: AppConfig;
+  brightness: number; // as applied to the image, after any luminance cap
+  imageUrl: string | null; // main image, measured for text contrast
+  screenAspect: number;
+}
+
+// Re-renders at the start of every minute, so the clock turns over on time
+const useMinuteClock = (active: boolean): Date => {
+  const [now, setNow] = useState<Date>(() => new Date());
+  useEffect(() => {
+    if (!active) return;
+    let timer: number;
+    const tick = () => {
+      const current = new Date();
+      setNow(current);
+      timer = window.setTimeout(tick, 60000 - (current.getSeconds() * 1000 + current.getMilliseconds()));
+    };
+    tick();
+    return () => clearTimeout(timer);
+  }, [active]);
+  return now;
+};
+
+// Reloads `load` every `intervalMs` while `key` is set; errors keep the last result
+const usePolled = <T,>(key: string | null, intervalMs: number, load: (key: string) => Promise<T>): { data: T | null; error: string | null } => {
+  const [state, setState] = useState<{ data: T | null; error: string | null }>({ data: null, error: null });
+  useEffect(() => {
+    setState({ data: null, error: null });
+    if (!key) return;
+    let cancelled = false;
+    const refresh = () => {
+      load(key)
+        .then(data => { if (!cancelled) setState({ data, error: null }); })
+        .catch((error: unknown) => {
+          if (!cancelled) setState(previous => ({ ...previous, error: error instanceof Error ? error.message : String(error) }));
+        });
+    };
+    refresh();
+    const timer = window.setInterval(refresh, intervalMs);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [key]);
+  return state;
+};
+
+// An imported file is keyed "file:<name>", so importing another one reloads it
+const FILE_SOURCE = 'file:';
+
+const loadCalendar = async (source: string): Promise<CalendarEvent[]> => {
+  if (!source.startsWith(FILE_SOURCE)) return fetchCalendar(source);
+  const text = loadCalendarFile();
+  return text ? parseICal(text) : [];
+};
+
+const formatEventTime = (event: EventOccurrence, now: Date): string => {
+  const dayOffset = Math.round(
+    (new Date(event.start.getFullYear(), event.start.getMonth(), event.start.getDate()).getTime()
+      - new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()) / (24 * 60 * 60 * 1000)
+  );
+  const day = dayOffset <= 0 ? 'Today' : dayOffset === 1 ? 'Tomorrow' : event.start.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+  if (event.allDay) return day;
+  // Started earlier and still running
+  if (event.start < now) return `Now, until ${event.end.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}`;
+  return `${day}, ${event.start.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+/**
+ * Clock, date, weather and upcoming events over the picture. Each widget's text turns
+ * dark or light with the part of the image behind it.
+ */
+const WidgetLayer: React.FC<WidgetLayerProps> = ({ config, brightness, imageUrl, screenAspect }) => {
+  const widgets = Object.values(WidgetType)
+    .map(type => ({ type, settings: getWidgetSettings(config, type) }))
+    .filter(widget => widget.settings.enabled);
+  const isEnabled = (type: WidgetType) => widgets.some(widget => widget.type === type);
+
+  const now = useMinuteClock(widgets.length > 0);
+  const weather = usePolled<WeatherReport>(isEnabled(WidgetType.Weather) && config.weatherUrl ? config.weatherUrl : null, WEATHER_REFRESH_MS, fetchWeather);
+  const calendarSource = config.calendarUrl || (config.calendarFileName ? `${FILE_SOURCE}${config.calendarFileName}` : '');
+  const calendar = usePolled<CalendarEvent[]>(isEnabled(WidgetType.Calendar) && calendarSource ? calendarSource : null, CALENDAR_REFRESH_MS, loadCalendar);
+  // Expanding recurrences isn't free; the layer re-renders with every brightness change
+  const upcomingEvents = useMemo(
+    () => (calendar.data ? getUpcomingEvents(calendar.data, now, EVENT_DAYS, EVENT_LIMIT) : []),
+    [calendar.data, now]
+  );
+
+  const [luminance, setLuminance] = useState<RegionLuminance | null>(null);
+  useEffect(() => {
+    setLuminance(null);
+    if (!imageUrl || widgets.length === 0) return;
+    let cancelled = false;
+    measureRegionLuminance(imageUrl, screenAspect).then(result => { if (!cancelled) setLuminance(result); });
+    return () => { cancelled = true; };
+  }, [imageUrl, screenAspect, widgets.length > 0]);
+
+  if (widgets.length === 0) return null;
+
+  const renderWidget = (type: WidgetType) => {
+    switch (type) {
+      case WidgetType.Clock:
+        return <p className="text-6xl tabular-nums leading-none">{now.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}</p>;
+      case WidgetType.Date:
+        return <p className="text-xl">{now.toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long' })}</p>;
+      case WidgetType.Weather: {
+        if (!config.weatherUrl) return <p className="text-xs">Set a weather address in the settings</p>;
+        const report = weather.data;
+        if (!report) return weather.error ? <p className="text-xs">{weather.error}</p> : null;
+        const range = [report.high, report.low].some(value => value !== undefined)
+          ? `${report.high !== undefined ? `↑${Math.round(report.high)}°` : ''} ${report.low !== undefined ? `↓${Math.round(report.low)}°` : ''}`.trim()
+          : null;
+        return (
+          <div className="space-y-1">
+            <p className="text-4xl tabular-nums leading-none">{Math.round(report.temperature)}{report.unit}</p>
+            {report.condition && <p className="text-sm">{report.condition}</p>}
+            {(range || report.location) && <p className="text-xs opacity-80">{[range, report.location].filter(Boolean).join(' · ')}</p>}
+          </div>
+        );
+      }
+      case WidgetType.Calendar: {
+        if (!calendarSource) return <p className="text-xs">Add a calendar in the settings</p>;
+        if (!calendar.data) return calendar.error ? <p className="text-xs">{calendar.error}</p> : null;
+        if (upcomingEvents.length === 0) return <p className="text-sm">No upcoming events</p>;
+        return (
+          <ul className="space-y-2 max-w-xs">
+            {upcomingEvents.map(event => (
+              <li key={`${event.summary}-${event.start.getTime()}`}>
+                <p className="text-[10px] uppercase tracking-wider opacity-80">{formatEventTime(event, now)}</p>
+                <p className="text-sm truncate">{event.summary}</p>
+              </li>
+            ))}
+          </ul>
+        );
+      }
+    }
+  };
+
+  return (
+    <>
+      {Object.values(WidgetPosition).map(position => {
+        const placed = widgets.filter(widget => widget.settings.position === position);
+        if (placed.length === 0) return null;
+        const contrast = getContrastStyle(luminance?.[position] ?? null, brightness);
+        return (
+          <div key={position} className={`absolute ${POSITION_CLASSES[position]} z-10 pointer-events-none flex flex-col space-y-3`} style={contrast}>
+            {placed.map(({ type, settings }) => (
+              <div key={type} className={WIDGET_FONT_CLASSES[settings.font]} style={{ opacity: settings.opacity }}>
+                {renderWidget(type)}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default WidgetLayer;
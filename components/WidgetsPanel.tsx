@@ -0,0 +1,160 @@
+import React, { useRef, useState } from 'react';
+import { AppConfig, WidgetFont, WidgetPosition, WidgetType } from '../types';
+import { getWidgetSettings, updateWidget } from '../services/widgets';
+import { parseICal, saveCalendarFile } from '../services/calendar';
+import { Trash2, Upload } from './Icon';
+
+interface WidgetsPanelProps {
+  config: AppConfig;
+  onUpdate: (newConfig: Partial<AppConfig>) => void;
+}
+
+const WIDGET_DESCRIPTIONS: Record<WidgetType, string> = {
+  [WidgetType.Clock]: 'Time of day',
+  [WidgetType.Date]: 'Weekday and date',
+  [WidgetType.Weather]: 'Current conditions from a local JSON endpoint',
+  [WidgetType.Calendar]: 'The next events of the coming week',
+};
+
+const WidgetsPanel: React.FC<WidgetsPanelProps> = ({ config, onUpdate }) => {
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectClass = 'min-w-0 px-2 py-1 rounded-lg text-[10px] bg-white/5 border border-white/10 outline-none';
+  const inputClass = 'w-full px-3 py-2 rounded-lg text-xs bg-white/5 border border-white/10 focus:border-blue-500 outline-none';
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const events = parseICal(text);
+      saveCalendarFile(text);
+      onUpdate({ calendarFileName: file.name });
+      setMessage(`Imported ${events.length} event${events.length === 1 ? '' : 's'} from ${file.name}`);
+    } catch (error) {
+      setMessage(`${file.name}: ${error instanceof Error ? error.message : 'could not be imported'}`);
+    }
+  };
+
+  const handleRemoveFile = () => {
+    saveCalendarFile(null);
+    onUpdate({ calendarFileName: '' });
+    setMessage(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="text-xs text-gray-500 uppercase tracking-widest block">Widgets</label>
+      <p className="text-xs text-gray-500">
+        Information shown over the picture. Text turns dark over light parts of the image and light over dark ones.
+      </p>
+
+      <div className="space-y-3">
+        {Object.values(WidgetType).map(widget => {
+          const settings = getWidgetSettings(config, widget);
+          const update = (changes: Partial<typeof settings>) => onUpdate({ widgets: updateWidget(config, widget, changes) });
+          return (
+            <div key={widget} className="px-3 py-2 rounded-lg bg-white/5 space-y-2">
+              <label className="flex items-center space-x-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={settings.enabled}
+                  onChange={(e) => update({ enabled: e.target.checked })}
+                  className="accent-blue-500"
+                />
+                <span>{widget}</span>
+                <span className="text-[10px] text-gray-500 truncate">{WIDGET_DESCRIPTIONS[widget]}</span>
+              </label>
+
+              {settings.enabled && (
+                <div className="flex flex-wrap items-center gap-3">
+                  <select
+                    value={settings.position}
+                    onChange={(e) => update({ position: e.target.value as WidgetPosition })}
+                    className={selectClass}
+                    aria-label={`${widget} position`}
+                  >
+                    {Object.values(WidgetPosition).map(position => (
+                      <option key={position} value={position}>{position}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={settings.font}
+                    onChange={(e) => update({ font: e.target.value as WidgetFont })}
+                    className={selectClass}
+                    aria-label={`${widget} font`}
+                  >
+                    {Object.values(WidgetFont).map(font => (
+                      <option key={font} value={font}>{font}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="range"
+                    min="0.2"
+                    max="1"
+                    step="0.1"
+                    value={settings.opacity}
+                    onChange={(e) => update({ opacity: parseFloat(e.target.value) })}
+                    className="flex-1 min-w-[6rem] h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    aria-label={`${widget} opacity`}
+                  />
+                  <span className="text-[10px] text-gray-400 w-8 text-right tabular-nums">{Math.round(settings.opacity * 100)}%</span>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs text-gray-500 uppercase tracking-widest block">Weather Address</label>
+        <input
+          type="url"
+          placeholder="http://weather.local/now.json"
+          value={config.weatherUrl}
+          onChange={(e) => onUpdate({ weatherUrl: e.target.value.trim() })}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs text-gray-500 uppercase tracking-widest block">Calendar</label>
+        <input
+          type="url"
+          placeholder="https://example.com/calendar.ics"
+          value={config.calendarUrl}
+          onChange={(e) => onUpdate({ calendarUrl: e.target.value.trim() })}
+          className={inputClass}
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="text/calendar,.ics"
+            className="hidden"
+            onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center space-x-2 px-4 py-2 rounded-full text-xs border border-white/20 hover:border-white/50"
+          >
+            <Upload size={14} />
+            <span>Import .ics File</span>
+          </button>
+          {config.calendarFileName && (
+            <>
+              <span className="text-xs text-gray-400 truncate">{config.calendarFileName}</span>
+              <button onClick={handleRemoveFile} className="text-gray-500 hover:text-red-400" aria-label="Remove calendar file">
+                <Trash2 size={14} />
+              </button>
+            </>
+          )}
+        </div>
+        {message && <p className="text-xs text-gray-400">{message}</p>}
+        <p className="text-[10px] text-gray-500">The address is used when set, the imported file otherwise.</p>
+      </div>
+    </div>
+  );
+};
+
+export default WidgetsPanel;
@@ -1,15 +1,23 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import RemoteControl from './components/RemoteControl';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// `?remote=<code>` turns this page into a remote control for a frame;
+// `?profile=<name or URL>` starts a frame with a settings profile
+const params = new URLSearchParams(window.location.search);
+const isRemote = params.has('remote');
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isRemote
+      ? <RemoteControl initialCode={params.get('remote') ?? ''} relayUrl={params.get('relay') ?? ''} />
+      : <App startProfile={params.get('profile')} />}
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,94 @@
+// Lumina service worker: keeps the app shell and recent artwork available offline.
+// Bump SHELL_CACHE when the caching rules change; built assets are versioned by name.
+const SHELL_CACHE = 'lumina-shell-v2';
+// Shared with services/imageCache.ts, which fills it from the page
+const IMAGE_CACHE = 'lumina-images';
+const MAX_CACHED_IMAGES = 100;
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+// Runtime dependencies loaded from CDNs by index.html
+const SHELL_HOSTS = ['cdn.tailwindcss.com', 'esm.sh'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_URLS)));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith('lumina-shell-') && key !== SHELL_CACHE).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page asks a waiting worker to take over once the user accepts the update
+self.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const putInCache = async (cacheName, request, response) => {
+  // Opaque responses (cross-origin, no CORS: the Tailwind script, many image hosts) can't
+  // be checked, so they are kept as long as one came back; browsers count each against
+  // the quota as several MB, which the image cache limit keeps in bounds
+  if (!response.ok && response.type !== 'opaque') return;
+  const cache = await caches.open(cacheName);
+  await cache.put(request, response);
+};
+
+const trimImageCache = async () => {
+  const cache = await caches.open(IMAGE_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_CACHED_IMAGES)).map(key => cache.delete(key)));
+};
+
+// Pages: network first so updates arrive, the cached shell when offline
+const handleNavigation = async request => {
+  try {
+    const response = await fetch(request);
+    await putInCache(SHELL_CACHE, '/index.html', response.clone());
+    return response;
+  } catch {
+    return (await caches.match('/index.html', { cacheName: SHELL_CACHE })) ?? Response.error();
+  }
+};
+
+// Built assets and CDN scripts: cached copy first, refreshed in the background
+const handleShellAsset = async (event, request) => {
+  const cached = await caches.match(request, { cacheName: SHELL_CACHE });
+  const refresh = fetch(request)
+    .then(async response => {
+      await putInCache(SHELL_CACHE, request, response.clone());
+      return response;
+    });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+};
+
+// Artwork: cached copy first, otherwise the network, keeping the newest images
+const handleImage = async (event, request) => {
+  const cached = await caches.match(request, { cacheName: IMAGE_CACHE });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  event.waitUntil(putInCache(IMAGE_CACHE, request, response.clone()).then(trimImageCache).catch(() => undefined));
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (request.destination === 'image') {
+    event.respondWith(handleImage(event, request));
+  } else if (url.origin === self.location.origin || SHELL_HOSTS.includes(url.hostname)) {
+    event.respondWith(handleShellAsset(event, request));
+  }
+});
@@ -0,0 +1,144 @@
+// Lumina relay: forwards remote-control and sync-group messages between devices.
+// A dependency-free WebSocket server; clients join a room with ?code=<room> (e.g.
+// remote-123456 or sync-livingroom) and every text message is passed on unchanged
+// to the other clients in the same room.
+//
+//   npm run relay            (listens on port 8787, or $PORT)
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Protocol messages are small; anything bigger is not ours
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** @type {Map<string, Set<import('node:net').Socket>>} */
+const rooms = new Map();
+
+const encodeFrame = (opcode, payload = Buffer.alloc(0)) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * Splits the complete frames off the front of `buffer`. Client frames are always masked.
+ * Fragmented messages aren't supported; browsers don't fragment messages this small.
+ */
+const decodeFrames = buffer => {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (length > MAX_MESSAGE_BYTES) return { frames, rest: buffer, tooLarge: true };
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+    const mask = buffer.subarray(cursor, cursor + maskLength);
+    cursor += maskLength;
+
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset), tooLarge: false };
+};
+
+const leave = (code, socket) => {
+  const room = rooms.get(code);
+  if (!room) return;
+  room.delete(socket);
+  if (room.size === 0) rooms.delete(code);
+};
+
+const server = createServer((request, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain' });
+  response.end('Lumina relay\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const code = new URL(request.url ?? '/', 'http://relay').searchParams.get('code') ?? '';
+  const key = request.headers['sec-websocket-key'];
+  if (!/^[\w-]{1,64}$/.test(code) || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '\r\n',
+  ].join('\r\n'));
+
+  if (!rooms.has(code)) rooms.set(code, new Set());
+  rooms.get(code).add(socket);
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    const { frames, rest, tooLarge } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    if (tooLarge) {
+      socket.end(encodeFrame(OPCODE_CLOSE));
+      return;
+    }
+
+    for (const { opcode, payload } of frames) {
+      if (opcode === OPCODE_TEXT) {
+        const frame = encodeFrame(OPCODE_TEXT, payload);
+        for (const peer of rooms.get(code) ?? []) {
+          if (peer !== socket && peer.writable) peer.write(frame);
+        }
+      } else if (opcode === OPCODE_PING) {
+        socket.write(encodeFrame(OPCODE_PONG, payload));
+      } else if (opcode === OPCODE_CLOSE) {
+        socket.end(encodeFrame(OPCODE_CLOSE));
+      }
+    }
+  });
+
+  socket.on('close', () => leave(code, socket));
+  socket.on('error', () => leave(code, socket));
+});
+
+server.listen(PORT, () => {
+  console.log(`Lumina relay listening on port ${PORT}`);
+});
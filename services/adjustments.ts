@@ -0,0 +1,120 @@
+import { AppConfig, FilterDefinition, FilterPreset, ImageAdjustments } from "../types";
+
+export const NEUTRAL_ADJUSTMENTS: ImageAdjustments = {
+  exposure: 0,
+  contrast: 0,
+  saturation: 0,
+  temperature: 0,
+  tint: 0,
+  vignette: 0,
+  grain: 0,
+};
+
+const preset = (id: FilterPreset, adjustments: Partial<ImageAdjustments>): FilterDefinition => ({
+  id,
+  name: id,
+  adjustments: { ...NEUTRAL_ADJUSTMENTS, ...adjustments },
+});
+
+export const BUILT_IN_FILTERS: FilterDefinition[] = [
+  preset(FilterPreset.Original, {}),
+  preset(FilterPreset.Noir, { saturation: -1, contrast: 0.25, exposure: -0.1 }),
+  preset(FilterPreset.Vivid, { saturation: 0.5, contrast: 0.1 }),
+  preset(FilterPreset.Warm, { temperature: 0.4, saturation: 0.1, exposure: 0.05 }),
+  preset(FilterPreset.Cool, { temperature: -0.4 }),
+  preset(FilterPreset.Cinematic, { contrast: 0.2, saturation: -0.2, temperature: -0.1, vignette: 0.45 }),
+  preset(FilterPreset.Fade, { contrast: -0.25, exposure: 0.1, saturation: -0.2, grain: 0.2 }),
+];
+
+export const isBuiltInFilter = (id: string): boolean => BUILT_IN_FILTERS.some(filter => filter.id === id);
+
+export const getFilters = (config: Pick<AppConfig, 'customFilters'>): FilterDefinition[] => [
+  ...BUILT_IN_FILTERS,
+  ...config.customFilters,
+];
+
+export const getActiveFilter = (config: Pick<AppConfig, 'filterId' | 'customFilters'>): FilterDefinition =>
+  getFilters(config).find(filter => filter.id === config.filterId) ?? BUILT_IN_FILTERS[0];
+
+export const createFilter = (name: string, adjustments: ImageAdjustments): FilterDefinition => ({
+  id: `filter-${Date.now().toString(36)}`,
+  name,
+  adjustments: { ...adjustments },
+});
+
+// --- COLOR MATRIX ---
+
+type Matrix = number[][]; // 5x5, rows act on [r, g, b, a, 1]
+
+const IDENTITY: Matrix = [
+  [1, 0, 0, 0, 0],
+  [0, 1, 0, 0, 0],
+  [0, 0, 1, 0, 0],
+  [0, 0, 0, 1, 0],
+  [0, 0, 0, 0, 1],
+];
+
+const multiply = (a: Matrix, b: Matrix): Matrix =>
+  a.map((row, i) => row.map((_, j) => row.reduce((sum, _value, k) => sum + a[i][k] * b[k][j], 0)));
+
+const scale = (r: number, g: number, b: number): Matrix => [
+  [r, 0, 0, 0, 0],
+  [0, g, 0, 0, 0],
+  [0, 0, b, 0, 0],
+  [0, 0, 0, 1, 0],
+  [0, 0, 0, 0, 1],
+];
+
+// Rec. 709 luminance weights
+const LUMA = [0.2126, 0.7152, 0.0722];
+
+const saturationMatrix = (amount: number): Matrix => {
+  const s = 1 + amount;
+  const rows = [0, 1, 2].map(i => [
+    ...LUMA.map((weight, j) => (1 - s) * weight + (i === j ? s : 0)),
+    0,
+    0,
+  ]);
+  return [...rows, [0, 0, 0, 1, 0], [0, 0, 0, 0, 1]];
+};
+
+const contrastMatrix = (amount: number): Matrix => {
+  const k = 1 + amount;
+  const offset = 0.5 * (1 - k);
+  return [
+    [k, 0, 0, 0, offset],
+    [0, k, 0, 0, offset],
+    [0, 0, k, 0, offset],
+    [0, 0, 0, 1, 0],
+    [0, 0, 0, 0, 1],
+  ];
+};
+
+/**
+ * Folds exposure, white balance, saturation and contrast into the 20 values of
+ * one SVG feColorMatrix, so the whole adjustment costs a single filter pass.
+ */
+export const buildColorMatrix = (adjustments: ImageAdjustments): string => {
+  const exposure = Math.pow(2, adjustments.exposure);
+  const steps = [
+    scale(exposure, exposure, exposure),
+    scale(1 + 0.2 * adjustments.temperature, 1 - 0.15 * adjustments.tint, 1 - 0.2 * adjustments.temperature),
+    saturationMatrix(adjustments.saturation),
+    contrastMatrix(adjustments.contrast),
+  ];
+  // Later steps apply to the output of earlier ones
+  const matrix = steps.reduce((result, step) => multiply(step, result), IDENTITY);
+  return matrix.slice(0, 4).map(row => row.map(value => value.toFixed(4)).join(' ')).join(' ');
+};
+
+export const hasColorAdjustments = (adjustments: ImageAdjustments): boolean =>
+  ['exposure', 'contrast', 'saturation', 'temperature', 'tint'].some(
+    key => adjustments[key as keyof ImageAdjustments] !== 0
+  );
+
+// Tileable noise, rendered once by the browser and reused as a background
+export const GRAIN_TEXTURE = `url("data:image/svg+xml,${encodeURIComponent(
+  "<svg xmlns='http://www.w3.org/2000/svg' width='160' height='160'>" +
+  "<filter id='n'><feTurbulence type='fractalNoise' baseFrequency='0.9' numOctaves='2' stitchTiles='stitch'/></filter>" +
+  "<rect width='100%' height='100%' filter='url(#n)'/></svg>"
+)}")`;
@@ -0,0 +1,233 @@
+/*
+ * Just enough iCalendar (RFC 5545) for an "upcoming events" list: VEVENTs with
+ * SUMMARY, DTSTART / DTEND, simple RRULEs (FREQ, INTERVAL, COUNT, UNTIL, weekly
+ * BYDAY) and EXDATE. Times with a TZID are read as local time.
+ */
+
+const CALENDAR_FILE_KEY = 'lumina-calendar-file';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Occurrences listed per event within the window asked for, against runaway rules
+const MAX_OCCURRENCES = 10000;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+interface RecurrenceRule {
+  frequency: Frequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  weekdays?: number[]; // 0 = Sunday, weekly rules only
+}
+
+export interface CalendarEvent {
+  summary: string;
+  start: Date;
+  durationMs: number;
+  allDay: boolean;
+  rule?: RecurrenceRule;
+  exceptions: number[]; // start times (ms) of skipped occurrences
+}
+
+export interface EventOccurrence {
+  summary: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const parseProperty = (line: string): Property | null => {
+  const match = /^([A-Za-z0-9-]+)((?:;[^:;]+=(?:"[^"]*"|[^:;]*))*):(.*)$/.exec(line);
+  if (!match) return null;
+  const params: Record<string, string> = {};
+  match[2].split(';').slice(1).forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+};
+
+// "20240115" (a date) or "20240115T090000" with an optional Z for UTC
+const parseDateValue = (value: string, dateOnly: boolean): Date | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0', utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), dateOnly ? 0 : Number(hours), dateOnly ? 0 : Number(minutes), dateOnly ? 0 : Number(seconds)] as const;
+  const date = utc && !dateOnly ? new Date(Date.UTC(...parts)) : new Date(...parts);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const isDateOnly = (property: Property) => property.params.VALUE === 'DATE' || /^\d{8}$/.test(property.value.trim());
+
+const unescapeText = (value: string) =>
+  value.replace(/\\[nN]/g, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+const parseRule = (value: string): RecurrenceRule | undefined => {
+  const parts = Object.fromEntries(value.split(';').map(part => part.split('=') as [string, string]));
+  const frequency = parts.FREQ as Frequency;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(frequency)) return undefined;
+
+  const weekdays = parts.BYDAY?.split(',')
+    .map((day: string) => WEEKDAYS.indexOf(day.slice(-2)))
+    .filter((day: number) => day >= 0);
+  return {
+    frequency,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    until: parts.UNTIL ? parseDateValue(parts.UNTIL, /^\d{8}$/.test(parts.UNTIL)) ?? undefined : undefined,
+    weekdays: frequency === 'WEEKLY' && weekdays?.length ? weekdays : undefined,
+  };
+};
+
+/**
+ * Reads the events of an .ics file. Throws when the text isn't a calendar;
+ * events it can't make sense of are skipped.
+ */
+export const parseICal = (text: string): CalendarEvent[] => {
+  // Long lines are folded: a line starting with a space or tab continues the previous one
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar file');
+  }
+
+  const events: CalendarEvent[] = [];
+  let current: Property[] | null = null;
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      current = [];
+    } else if (upper === 'END:VEVENT' && current) {
+      const event = toEvent(current);
+      if (event) events.push(event);
+      current = null;
+    } else if (current) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  }
+  return events;
+};
+
+const toEvent = (properties: Property[]): CalendarEvent | null => {
+  const find = (name: string) => properties.find(property => property.name === name);
+  const startProperty = find('DTSTART');
+  if (!startProperty || find('STATUS')?.value.toUpperCase() === 'CANCELLED') return null;
+
+  const allDay = isDateOnly(startProperty);
+  const start = parseDateValue(startProperty.value, allDay);
+  if (!start) return null;
+
+  const endProperty = find('DTEND');
+  const end = endProperty ? parseDateValue(endProperty.value, isDateOnly(endProperty)) : null;
+  const durationMs = end ? Math.max(0, end.getTime() - start.getTime()) : allDay ? DAY_MS : 0;
+
+  const exceptions = properties
+    .filter(property => property.name === 'EXDATE')
+    .flatMap(property => property.value.split(',').map(value => parseDateValue(value, isDateOnly(property))))
+    .filter((date): date is Date => date !== null)
+    .map(date => date.getTime());
+
+  const rule = find('RRULE');
+  return {
+    summary: unescapeText(find('SUMMARY')?.value ?? '') || 'Untitled event',
+    start,
+    durationMs,
+    allDay,
+    rule: rule ? parseRule(rule.value) : undefined,
+    exceptions,
+  };
+};
+
+// Same wall-clock time, `days` / `months` later (local time, so DST doesn't shift it)
+const shift = (date: Date, days: number, months = 0): Date =>
+  new Date(date.getFullYear(), date.getMonth() + months, date.getDate() + days, date.getHours(), date.getMinutes(), date.getSeconds());
+
+/**
+ * Start times of an event from `from` up to `until`. A recurrence that started long
+ * before `from` skips ahead to it instead of stepping through every past occurrence;
+ * COUNT still counts from the first one.
+ */
+const listStarts = (event: CalendarEvent, from: Date, until: Date): Date[] => {
+  const { rule, start } = event;
+  if (!rule) return [start];
+
+  const starts: Date[] = [];
+  const last = rule.until && rule.until < until ? rule.until : until;
+  let counted = 0; // occurrences since DTSTART, for COUNT
+  const done = () => starts.length >= MAX_OCCURRENCES || (rule.count !== undefined && counted >= rule.count);
+  const add = (candidate: Date) => {
+    counted++;
+    if (candidate >= from) starts.push(candidate);
+  };
+  // Whole periods between DTSTART and `from`, less one so a DST change can't overshoot
+  const periodsBefore = (periodDays: number): number =>
+    Math.max(0, Math.floor((from.getTime() - start.getTime()) / (periodDays * DAY_MS)) - 1);
+
+  if (rule.frequency === 'WEEKLY' && rule.weekdays) {
+    // Day by day through the weeks the interval selects, counting Sunday-to-Saturday weeks from DTSTART's.
+    // Without COUNT, whole cycles of `interval` weeks before `from` are skipped.
+    const weekStart = shift(start, -start.getDay());
+    const cycleDays = rule.interval * 7;
+    for (let day = rule.count === undefined ? periodsBefore(cycleDays) * cycleDays : 0; !done(); day++) {
+      const candidate = shift(weekStart, day);
+      if (candidate > last) break;
+      if (candidate < start) continue;
+      if (Math.floor(day / 7) % rule.interval === 0 && rule.weekdays.includes(candidate.getDay())) add(candidate);
+    }
+    return starts;
+  }
+
+  // Every daily or weekly step is an occurrence, so skipped steps count exactly.
+  // Monthly and yearly rules have few enough steps to walk through.
+  const stepDays = rule.frequency === 'DAILY' ? rule.interval : rule.frequency === 'WEEKLY' ? rule.interval * 7 : 0;
+  const firstStep = stepDays > 0 ? periodsBefore(stepDays) : 0;
+  counted = firstStep;
+  for (let step = firstStep; !done(); step++) {
+    const n = step * rule.interval;
+    const candidate = rule.frequency === 'DAILY' ? shift(start, n)
+      : rule.frequency === 'WEEKLY' ? shift(start, n * 7)
+      : rule.frequency === 'MONTHLY' ? shift(start, 0, n)
+      : shift(start, 0, n * 12);
+    if (candidate > last) break;
+    // The 31st doesn't exist every month: such months are skipped, not moved
+    if (stepDays > 0 || candidate.getDate() === start.getDate()) add(candidate);
+  }
+  return starts;
+};
+
+/**
+ * Occurrences that haven't ended at `now` and start within `days`, soonest first.
+ */
+export const getUpcomingEvents = (events: CalendarEvent[], now: Date, days: number, limit: number): EventOccurrence[] => {
+  const windowEnd = new Date(now.getTime() + days * DAY_MS);
+  return events
+    .flatMap(event => listStarts(event, new Date(now.getTime() - event.durationMs), windowEnd)
+      .filter(start => start <= windowEnd && !event.exceptions.includes(start.getTime()))
+      .map(start => ({ summary: event.summary, start, end: new Date(start.getTime() + event.durationMs), allDay: event.allDay })))
+    .filter(occurrence => occurrence.end >= now)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .slice(0, limit);
+};
+
+export const fetchCalendar = async (url: string): Promise<CalendarEvent[]> => {
+  const response = await fetch(url, { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`Calendar not found (HTTP ${response.status})`);
+  return parseICal(await response.text());
+};
+
+// --- IMPORTED FILE ---
+// Kept apart from the saved state: calendars can be large and change independently
+
+export const loadCalendarFile = (): string | null => localStorage.getItem(CALENDAR_FILE_KEY);
+
+export const saveCalendarFile = (text: string | null) => {
+  if (text === null) localStorage.removeItem(CALENDAR_FILE_KEY);
+  else localStorage.setItem(CALENDAR_FILE_KEY, text);
+};
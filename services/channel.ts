@@ -0,0 +1,57 @@
+const RECONNECT_DELAY_MS = 5000;
+
+export interface RelayChannel {
+  send: (message: object) => void;
+  close: () => void;
+}
+
+/**
+ * Joins a named room. BroadcastChannel reaches other tabs of the same browser; with a
+ * relay URL, a WebSocket to the relay (relay/server.mjs) reaches other devices as well.
+ * The socket reconnects by itself until the channel is closed.
+ */
+export const openRelayChannel = (room: string, relayUrl: string, onData: (data: unknown) => void): RelayChannel => {
+  let closed = false;
+  let socket: WebSocket | null = null;
+  let reconnectTimer: number | null = null;
+
+  const broadcast = 'BroadcastChannel' in window ? new BroadcastChannel(`lumina-${room}`) : null;
+  broadcast?.addEventListener('message', event => onData(event.data));
+
+  const connect = () => {
+    if (closed || !relayUrl) return;
+    try {
+      const url = new URL(relayUrl);
+      url.searchParams.set('code', room);
+      socket = new WebSocket(url);
+    } catch (error) {
+      console.error('Invalid relay URL:', error);
+      return;
+    }
+    socket.addEventListener('message', event => {
+      try {
+        onData(JSON.parse(event.data));
+      } catch {
+        // Not JSON, so not ours
+      }
+    });
+    socket.addEventListener('close', () => {
+      socket = null;
+      if (!closed) reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+    });
+  };
+  connect();
+
+  return {
+    send: message => {
+      broadcast?.postMessage(message);
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      broadcast?.close();
+      socket?.close();
+    },
+  };
+};
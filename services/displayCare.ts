@@ -0,0 +1,51 @@
+import type { CSSProperties } from 'react';
+import { averageLuminance, sampleImage } from "./imageAnalysis";
+
+/*
+ * Safeguards for panels that burn in (OLED, plasma): the picture and everything on it
+ * drifts by a few pixels, no image stays up indefinitely, the screen goes black for a
+ * moment now and then, and bright images are dimmed to an average light level.
+ */
+
+// The picture moves to its next offset this often, gliding there over SHIFT_GLIDE_MS
+export const SHIFT_STEP_MS = 2 * 60 * 1000;
+const SHIFT_GLIDE_MS = 3000;
+// Width of the copy the average luminance is measured on
+const SAMPLE_WIDTH = 32;
+
+/**
+ * Offset in pixels at `time`, within `amplitude` in each direction. Taken from the
+ * clock, so frames of a sync group drift together.
+ */
+export const getPixelShift = (time: number, amplitude: number): { x: number; y: number } => {
+  if (amplitude <= 0) return { x: 0, y: 0 };
+  // Two unrelated frequencies trace a path that covers the whole square over time
+  const step = Math.floor(time / SHIFT_STEP_MS);
+  return {
+    x: Math.round(amplitude * Math.sin(step * 1.3)),
+    y: Math.round(amplitude * Math.cos(step * 0.7)),
+  };
+};
+
+export const getShiftStyle = (shift: { x: number; y: number }): CSSProperties => ({
+  transform: shift.x || shift.y ? `translate(${shift.x}px, ${shift.y}px)` : undefined,
+  transition: `transform ${SHIFT_GLIDE_MS}ms ease-in-out`,
+});
+
+/**
+ * Mean luminance of the whole image, 0 to 1, or null when its pixels can't be read.
+ */
+export const measureImageLuminance = async (url: string): Promise<number | null> => {
+  const sample = await sampleImage(url, SAMPLE_WIDTH);
+  return sample ? averageLuminance(sample) : null;
+};
+
+/**
+ * Brightness that keeps the image's average light level at or below `cap`. An image
+ * whose luminance isn't known is treated as white, so it gets the full reduction.
+ */
+export const capBrightness = (brightness: number, cap: number, luminance: number | null): number => {
+  if (cap >= 1) return brightness;
+  const level = Math.max(luminance ?? 1, 0.01);
+  return Math.min(brightness, cap / level);
+};
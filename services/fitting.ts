@@ -0,0 +1,67 @@
+import { ArtImage, FitMode, FocalPoint, ImageDisplaySettings } from "../types";
+
+// Largest edge requested from providers; beyond 4K only the download grows
+const MAX_REQUEST_EDGE = 3840;
+// Round sizes so small viewport changes still hit the same cached images
+const SIZE_STEP = 64;
+// Auto uses cover while image and screen aspect ratios differ by less than this
+const AUTO_COVER_TOLERANCE = 0.25;
+
+export interface ResolvedFit {
+  mode: 'cover' | 'contain';
+  position: string; // CSS object-position
+}
+
+export const CENTER: FocalPoint = { x: 0.5, y: 0.5 };
+
+export const getImageKey = (image: Pick<ArtImage, 'source' | 'id'>): string => `${image.source}:${image.id}`;
+
+/**
+ * Pixel size to request for the current viewport, orientation and devicePixelRatio.
+ * `fraction` scales it down for images that fill only part of the screen; a picture
+ * turned a quarter in software swaps the viewport's width and height.
+ */
+export const getRequestedImageSize = (fraction = { x: 1, y: 1 }, quarterTurn = false): { width: number; height: number } => {
+  const dpr = window.devicePixelRatio || 1;
+  const [viewportWidth, viewportHeight] = quarterTurn
+    ? [window.innerHeight, window.innerWidth]
+    : [window.innerWidth, window.innerHeight];
+  let width = viewportWidth * fraction.x * dpr;
+  let height = viewportHeight * fraction.y * dpr;
+
+  const scale = Math.min(1, MAX_REQUEST_EDGE / Math.max(width, height));
+  width = Math.max(SIZE_STEP, Math.round((width * scale) / SIZE_STEP) * SIZE_STEP);
+  height = Math.max(SIZE_STEP, Math.round((height * scale) / SIZE_STEP) * SIZE_STEP);
+  return { width, height };
+};
+
+/**
+ * Decides how an image fills the screen: its own setting wins over the global mode.
+ */
+export const resolveFit = (
+  image: ArtImage | null,
+  settings: ImageDisplaySettings | undefined,
+  globalMode: FitMode,
+  screenAspect: number
+): ResolvedFit => {
+  const mode = settings?.fitMode ?? globalMode;
+  const focal = settings?.focalPoint ?? CENTER;
+  const position = `${focal.x * 100}% ${focal.y * 100}%`;
+
+  switch (mode) {
+    case FitMode.Cover:
+      return { mode: 'cover', position: '50% 50%' };
+    case FitMode.Contain:
+      return { mode: 'contain', position: '50% 50%' };
+    case FitMode.FocalPoint:
+      return { mode: 'cover', position };
+    case FitMode.Auto:
+    default: {
+      if (!image?.width || !image?.height) return { mode: 'cover', position };
+      const ratio = image.width / image.height / screenAspect;
+      return Math.abs(Math.log(ratio)) < Math.log(1 + AUTO_COVER_TOLERANCE)
+        ? { mode: 'cover', position }
+        : { mode: 'contain', position: '50% 50%' };
+    }
+  }
+};
@@ -0,0 +1,115 @@
+import type { CSSProperties } from 'react';
+import { AppConfig, FrameDefinition, FrameMaterial, FrameStyle, ImageAnalysis } from "../types";
+import { fromHsl, getDominantHue, toHsl } from "./imageAnalysis";
+
+// Image mattes are tinted, never colorful
+const MATTE_SATURATION = 0.18;
+
+const builtIn = (id: FrameStyle, definition: Omit<FrameDefinition, 'id' | 'name'>): FrameDefinition => ({
+  id,
+  name: id,
+  ...definition,
+});
+
+export const BUILT_IN_FRAMES: FrameDefinition[] = [
+  builtIn(FrameStyle.None, {
+    material: FrameMaterial.Flat, color: '#000000', width: 0,
+    matteColor: '#000000', matteWidth: 0, bevel: 0, shadowDepth: 0,
+  }),
+  builtIn(FrameStyle.ModernBlack, {
+    material: FrameMaterial.Flat, color: '#0a0a0a', width: 20,
+    matteColor: '#111827', matteWidth: 32, bevel: 0, shadowDepth: 0.5,
+  }),
+  builtIn(FrameStyle.GalleryWhite, {
+    material: FrameMaterial.Flat, color: '#fafafa', width: 20,
+    matteColor: '#f3f4f6', matteWidth: 48, bevel: 3, shadowDepth: 0.4,
+  }),
+  builtIn(FrameStyle.Wood, {
+    material: FrameMaterial.Wood, color: '#5c4033', width: 28,
+    matteColor: '#efe8dc', matteWidth: 40, bevel: 3, shadowDepth: 0.6,
+  }),
+];
+
+export const isBuiltInFrame = (id: string): boolean => BUILT_IN_FRAMES.some(frame => frame.id === id);
+
+export const getFrames = (config: Pick<AppConfig, 'customFrames'>): FrameDefinition[] => [
+  ...BUILT_IN_FRAMES,
+  ...config.customFrames,
+];
+
+export const getActiveFrame = (config: Pick<AppConfig, 'frameId' | 'customFrames'>): FrameDefinition =>
+  getFrames(config).find(frame => frame.id === config.frameId) ?? BUILT_IN_FRAMES[0];
+
+export const createFrame = (name: string, base: FrameDefinition): FrameDefinition => ({
+  ...base,
+  id: `frame-${Date.now().toString(36)}`,
+  name,
+});
+
+/**
+ * The frame with its matte tinted by the image: the hue of the image's most common
+ * color, muted, at about the lightness of the frame's own matte so light mattes stay
+ * light. Near-white and near-black mattes are pulled in far enough to show the tint.
+ */
+export const withImageMatte = (frame: FrameDefinition, analysis: ImageAnalysis | undefined): FrameDefinition => {
+  if (!analysis || frame.matteWidth === 0 || analysis.palette.length === 0) return frame;
+  const hue = getDominantHue(analysis);
+  const l = Math.min(Math.max(toHsl(frame.matteColor).l, 0.12), 0.85);
+  return { ...frame, matteColor: fromHsl({ h: hue ?? 0, s: hue === null ? 0 : MATTE_SATURATION, l }) };
+};
+
+// Procedural textures drawn over the base color with plain CSS gradients
+const MATERIAL_TEXTURES: Record<FrameMaterial, string> = {
+  [FrameMaterial.Flat]: 'none',
+  [FrameMaterial.Wood]: [
+    // fine grain lines, wider growth rings, then a soft light falloff across the moulding
+    'repeating-linear-gradient(90deg, rgba(0,0,0,0.10) 0 1px, transparent 1px 5px)',
+    'repeating-linear-gradient(91deg, rgba(255,255,255,0.05) 0 2px, transparent 2px 17px)',
+    'repeating-linear-gradient(89deg, rgba(0,0,0,0.12) 0 6px, transparent 6px 41px)',
+    'linear-gradient(135deg, rgba(255,255,255,0.10), rgba(0,0,0,0.20))',
+  ].join(', '),
+  [FrameMaterial.Metal]: [
+    // brushed streaks under a diagonal sheen
+    'repeating-linear-gradient(0deg, rgba(255,255,255,0.05) 0 1px, transparent 1px 3px)',
+    'linear-gradient(135deg, rgba(255,255,255,0.45), rgba(0,0,0,0.25) 45%, rgba(255,255,255,0.25) 60%, rgba(0,0,0,0.35))',
+  ].join(', '),
+};
+
+export interface FrameStyles {
+  frame: CSSProperties;
+  matte: CSSProperties;
+  opening: CSSProperties; // the image window inside the matte
+}
+
+/**
+ * Inline styles for the three nested layers of a frame. Widths are inline
+ * values rather than utility classes so any custom width takes effect.
+ */
+export const getFrameStyles = (frame: FrameDefinition): FrameStyles => {
+  const depth = frame.shadowDepth;
+  const hasFrame = frame.width > 0;
+
+  return {
+    frame: {
+      padding: frame.width,
+      backgroundColor: frame.color,
+      backgroundImage: MATERIAL_TEXTURES[frame.material],
+      // Raised moulding: lit top-left edge, shaded bottom-right edge
+      boxShadow: hasFrame
+        ? 'inset 2px 2px 3px rgba(255,255,255,0.25), inset -2px -2px 3px rgba(0,0,0,0.45)'
+        : 'none',
+    },
+    matte: {
+      padding: frame.matteWidth,
+      backgroundColor: frame.matteColor,
+      boxShadow: depth > 0
+        ? `inset ${6 * depth}px ${10 * depth}px ${24 * depth}px rgba(0,0,0,${0.7 * depth})`
+        : 'none',
+    },
+    opening: {
+      boxShadow: frame.bevel > 0
+        ? `0 0 0 ${frame.bevel}px rgba(255,255,255,0.85), 0 0 0 ${frame.bevel + 1}px rgba(0,0,0,0.15)`
+        : 'none',
+    },
+  };
+};
@@ -1,36 +1,49 @@
-import { Genre } from "../types";
+import { ArtImage, ImageRequest, ImageSourceId, PlaylistItem } from "../types";
+import { resolveProviderChain, withTimeout } from "./imageProviders";
+import { getImageKey, getRequestedImageSize } from "./fitting";
+
+// Providers that can't avoid banned images up front get this many tries
+const MAX_BANNED_RETRIES = 3;
+
+export interface GenerateOptions {
+  sequence?: number; // position in sequential playback
+  fraction?: { x: number; y: number }; // share of the screen the image fills
+  quarterTurn?: boolean; // picture turned 90° or 270° in software
+  exclude?: ImageSourceId[]; // providers that already failed for this request
+  weightOf?: (key: string) => number; // chance of an image by getImageKey, 0 = never show
+}
 
 /**
- * Generates an image URL using stock photos (Picsum) based on the genre.
- * Replaces the AI generation to function without an API key.
+ * Fetches an image for a playlist item from the item's provider.
+ * Each provider that is unavailable, fails or times out hands over to its fallback;
+ * resolves to null only when the whole chain is exhausted. Images weighted 0 (banned)
+ * are never returned.
  */
-export const generateArtImage = async (genre: Genre): Promise<string | null> => {
-  // Simulate network delay for a smoother "curating" experience
-  await new Promise(resolve => setTimeout(resolve, 600));
+export const generateArtImage = async (item: PlaylistItem, theme: string, options: GenerateOptions = {}): Promise<ArtImage | null> => {
+  // Sized for the actual screen, so portrait frames get portrait images
+  const request: ImageRequest = { theme, query: item.query, ...getRequestedImageSize(options.fraction, options.quarterTurn), sequence: options.sequence };
 
-  try {
-    // Generate a random seed based on genre and random number to ensure variety
-    // This ensures we get different images even for the same genre
-    const cacheBuster = Math.floor(Math.random() * 100000);
-    const seed = `${genre.replace(/\s+/g, '-')}-${cacheBuster}`;
+  for (const provider of resolveProviderChain(item.source, options.exclude)) {
+    if (!provider.isAvailable()) continue;
 
-    // 16:9 Aspect Ratio for landscape display (1920x1080)
-    const width = 1920;
-    const height = 1080;
+    // Fallbacks only get the theme: the query is specific to the item's own source
+    const weightOf = options.weightOf;
+    const providerRequest: ImageRequest = {
+      ...request,
+      query: provider.id === item.source ? request.query : '',
+      weightOf: weightOf && (id => weightOf(getImageKey({ source: provider.id, id }))),
+    };
 
-    // Use Picsum with seed for deterministic random images
-    const imageUrl = `https://picsum.photos/seed/${seed}/${width}/${height}`;
-
-    return imageUrl;
-  } catch (error) {
-    console.error("Image generation failed:", error);
-    return null;
+    try {
+      for (let attempt = 0; attempt < MAX_BANNED_RETRIES; attempt++) {
+        const image = await withTimeout(provider.fetchImage(providerRequest), provider.timeoutMs, provider.label);
+        if (!image) break;
+        if (!weightOf || weightOf(getImageKey(image)) > 0) return image;
+      }
+    } catch (error) {
+      console.error(`${provider.label} provider failed:`, error);
+    }
   }
-};
 
-/**
- * Generates a title (Static fallback as API is disabled)
- */
-export const generateTitle = async (genre: Genre): Promise<string> => {
-  return `${genre} Collection`;
-}
\ No newline at end of file
+  return null;
+};
@@ -0,0 +1,289 @@
+import { AppConfig, GestureAction, GestureBindings, GestureTarget, GestureType, GestureZone, InputAction } from "../types";
+import { Rotation, toLocalPoint } from "./orientation";
+
+/*
+ * Touch, mouse and pen all arrive as pointer events, so one recognizer serves them all:
+ * a click is a tap, holding the button is a long press and dragging is a swipe.
+ * Trackpad pinches (and ctrl + mouse wheel) arrive as wheel events with ctrlKey set.
+ * Positions are taken in the element's own coordinates, so zones and swipe directions
+ * match the picture when it is turned in software.
+ */
+
+// Movement below this still counts as a tap or long press
+const TAP_SLOP_PX = 12;
+const SWIPE_MIN_PX = 60;
+const DOUBLE_TAP_MS = 300;
+const LONG_PRESS_MS = 600;
+// Finger distance has to grow or shrink by this factor to count as a pinch
+const PINCH_RATIO = 1.25;
+const WHEEL_PINCH_DELTA = 60;
+// A wheel pinch ends after this long without wheel events
+const WHEEL_IDLE_MS = 300;
+
+// Zone boundaries as a fraction of the width
+const LEFT_ZONE_END = 0.35;
+const RIGHT_ZONE_START = 0.65;
+
+const EVERY_ZONE: Partial<Record<GestureType, GestureTarget>> = {
+  [GestureType.Tap]: GestureAction.ToggleMenu,
+  [GestureType.LongPress]: InputAction.RateImage,
+  [GestureType.SwipeLeft]: InputAction.Next,
+  [GestureType.SwipeRight]: InputAction.Previous,
+};
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  [GestureZone.Left]: { ...EVERY_ZONE, [GestureType.DoubleTap]: InputAction.Previous },
+  [GestureZone.Center]: { ...EVERY_ZONE },
+  [GestureZone.Right]: {
+    ...EVERY_ZONE,
+    [GestureType.DoubleTap]: InputAction.Next,
+    [GestureType.VerticalDrag]: GestureAction.SlideBrightness,
+  },
+};
+
+export const getGestureBindings = (config: Pick<AppConfig, 'gestureBindings'>): GestureBindings => ({
+  [GestureZone.Left]: { ...DEFAULT_GESTURE_BINDINGS[GestureZone.Left], ...config.gestureBindings[GestureZone.Left] },
+  [GestureZone.Center]: { ...DEFAULT_GESTURE_BINDINGS[GestureZone.Center], ...config.gestureBindings[GestureZone.Center] },
+  [GestureZone.Right]: { ...DEFAULT_GESTURE_BINDINGS[GestureZone.Right], ...config.gestureBindings[GestureZone.Right] },
+});
+
+export const findGestureAction = (bindings: GestureBindings, gesture: GestureType, zone: GestureZone): GestureTarget =>
+  bindings[zone][gesture] ?? GestureAction.None;
+
+export const isInputAction = (target: GestureTarget): target is InputAction =>
+  (Object.values(InputAction) as string[]).includes(target);
+
+/**
+ * Actions that make sense for a gesture: a drag sets a value continuously,
+ * everything else fires once.
+ */
+export const getGestureOptions = (gesture: GestureType): GestureTarget[] =>
+  gesture === GestureType.VerticalDrag
+    ? [GestureAction.None, GestureAction.SlideBrightness]
+    : [GestureAction.None, GestureAction.ToggleMenu, ...Object.values(InputAction)];
+
+export const getGestureZone = (x: number, width: number): GestureZone => {
+  if (x < width * LEFT_ZONE_END) return GestureZone.Left;
+  if (x > width * RIGHT_ZONE_START) return GestureZone.Right;
+  return GestureZone.Center;
+};
+
+export interface GestureHandlers {
+  // Only bound double taps delay single taps, and only bound drags replace vertical swipes
+  isBound: (gesture: GestureType, zone: GestureZone) => boolean;
+  onGesture: (gesture: GestureType, zone: GestureZone) => void;
+  // Vertical drag position, 0 = top of the element, 1 = bottom
+  onDrag: (zone: GestureZone, position: number) => void;
+}
+
+interface TrackedPointer {
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+}
+
+type RecognizerState = 'idle' | 'press' | 'swipe' | 'drag' | 'pinch' | 'done';
+
+/**
+ * Recognizes gestures on `element`, which is turned by `rotation` on screen. Pointers
+ * starting inside a `[data-no-gestures]` element (menus, prompts) are left alone.
+ * Returns a function that detaches it.
+ */
+export const attachGestureRecognizer = (element: HTMLElement, handlers: GestureHandlers, rotation: Rotation = 0): (() => void) => {
+  const pointers = new Map<number, TrackedPointer>();
+  let state: RecognizerState = 'idle';
+  let pressZone = GestureZone.Center;
+  let pinchStart = 0;
+  let longPressTimer: number | null = null;
+  let tapTimer: number | null = null;
+  let tapZone = GestureZone.Center;
+  let wheelDelta = 0;
+  let wheelDone = false;
+  let wheelTimer: number | null = null;
+
+  const isIgnored = (target: EventTarget | null) =>
+    target instanceof Element && target.closest('[data-no-gestures]') !== null;
+
+  const toLocal = (e: { clientX: number; clientY: number }) => {
+    const rect = element.getBoundingClientRect();
+    return toLocalPoint(rotation, e.clientX - rect.left, e.clientY - rect.top, element.offsetWidth, element.offsetHeight);
+  };
+
+  const zoneAt = (x: number) => getGestureZone(x, element.offsetWidth);
+
+  const fingers = () => Array.from(pointers.values());
+
+  const fingerDistance = () => {
+    const [a, b] = fingers();
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const clearLongPress = () => {
+    if (longPressTimer !== null) clearTimeout(longPressTimer);
+    longPressTimer = null;
+  };
+
+  const flushTap = () => {
+    if (tapTimer === null) return;
+    clearTimeout(tapTimer);
+    tapTimer = null;
+    handlers.onGesture(GestureType.Tap, tapZone);
+  };
+
+  // Single taps wait for a possible second tap only where a double tap does something
+  const handleTap = (zone: GestureZone) => {
+    if (tapTimer !== null && tapZone === zone) {
+      clearTimeout(tapTimer);
+      tapTimer = null;
+      handlers.onGesture(GestureType.DoubleTap, zone);
+      return;
+    }
+    flushTap();
+    if (!handlers.isBound(GestureType.DoubleTap, zone)) {
+      handlers.onGesture(GestureType.Tap, zone);
+      return;
+    }
+    tapZone = zone;
+    tapTimer = window.setTimeout(flushTap, DOUBLE_TAP_MS);
+  };
+
+  const handleSwipe = (pointer: TrackedPointer) => {
+    const dx = pointer.x - pointer.startX;
+    const dy = pointer.y - pointer.startY;
+    if (Math.hypot(dx, dy) < SWIPE_MIN_PX) return;
+    const gesture = Math.abs(dx) > Math.abs(dy)
+      ? (dx < 0 ? GestureType.SwipeLeft : GestureType.SwipeRight)
+      : (dy < 0 ? GestureType.SwipeUp : GestureType.SwipeDown);
+    handlers.onGesture(gesture, pressZone);
+  };
+
+  const handlePointerDown = (e: PointerEvent) => {
+    if (isIgnored(e.target) || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    const { x, y } = toLocal(e);
+    pointers.set(e.pointerId, { startX: x, startY: y, x, y });
+    // Keeps a mouse drag going when it leaves the window
+    element.setPointerCapture(e.pointerId);
+
+    if (pointers.size === 1) {
+      state = 'press';
+      pressZone = zoneAt(x);
+      clearLongPress();
+      longPressTimer = window.setTimeout(() => {
+        longPressTimer = null;
+        if (state !== 'press') return;
+        state = 'done';
+        handlers.onGesture(GestureType.LongPress, pressZone);
+      }, LONG_PRESS_MS);
+    } else if (pointers.size === 2 && state !== 'done') {
+      clearLongPress();
+      state = 'pinch';
+      pinchStart = fingerDistance();
+    }
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    const pointer = pointers.get(e.pointerId);
+    if (!pointer) return;
+    const { x, y } = toLocal(e);
+    pointer.x = x;
+    pointer.y = y;
+
+    if (state === 'press') {
+      const dx = pointer.x - pointer.startX;
+      const dy = pointer.y - pointer.startY;
+      if (Math.hypot(dx, dy) < TAP_SLOP_PX) return;
+      clearLongPress();
+      const vertical = Math.abs(dy) > Math.abs(dx);
+      state = vertical && handlers.isBound(GestureType.VerticalDrag, pressZone) ? 'drag' : 'swipe';
+    }
+
+    if (state === 'drag') {
+      handlers.onDrag(pressZone, Math.max(0, Math.min(1, pointer.y / element.offsetHeight)));
+    }
+  };
+
+  const handlePointerUp = (e: PointerEvent) => {
+    const pointer = pointers.get(e.pointerId);
+    if (!pointer) return;
+
+    // The first finger to lift ends the pinch; the other one is ignored until it lifts too
+    if (state === 'pinch' && pointers.size === 2) {
+      const ratio = pinchStart > 0 ? fingerDistance() / pinchStart : 1;
+      const [a, b] = fingers();
+      if (ratio >= PINCH_RATIO || ratio <= 1 / PINCH_RATIO) {
+        handlers.onGesture(ratio > 1 ? GestureType.PinchOut : GestureType.PinchIn, zoneAt((a.x + b.x) / 2));
+      }
+      state = 'done';
+    } else if (state === 'press') {
+      clearLongPress();
+      handleTap(pressZone);
+    } else if (state === 'swipe') {
+      handleSwipe(pointer);
+    }
+
+    pointers.delete(e.pointerId);
+    if (pointers.size === 0) state = 'idle';
+    else if (state !== 'idle') state = 'done';
+  };
+
+  const handlePointerCancel = (e: PointerEvent) => {
+    if (!pointers.delete(e.pointerId)) return;
+    clearLongPress();
+    state = pointers.size === 0 ? 'idle' : 'done';
+  };
+
+  const handleWheel = (e: WheelEvent) => {
+    if (!e.ctrlKey || isIgnored(e.target)) return;
+    // Otherwise the browser zooms the page
+    e.preventDefault();
+    if (wheelTimer !== null) clearTimeout(wheelTimer);
+    wheelTimer = window.setTimeout(() => {
+      wheelTimer = null;
+      wheelDelta = 0;
+      wheelDone = false;
+    }, WHEEL_IDLE_MS);
+
+    if (wheelDone) return;
+    wheelDelta += e.deltaY;
+    if (Math.abs(wheelDelta) >= WHEEL_PINCH_DELTA) {
+      wheelDone = true;
+      handlers.onGesture(wheelDelta > 0 ? GestureType.PinchIn : GestureType.PinchOut, zoneAt(toLocal(e).x));
+    }
+  };
+
+  // Long presses would open the context menu or start dragging the image
+  const preventDefault = (e: Event) => {
+    if (!isIgnored(e.target)) e.preventDefault();
+  };
+
+  element.addEventListener('pointerdown', handlePointerDown);
+  element.addEventListener('pointermove', handlePointerMove);
+  element.addEventListener('pointerup', handlePointerUp);
+  element.addEventListener('pointercancel', handlePointerCancel);
+  element.addEventListener('wheel', handleWheel, { passive: false });
+  element.addEventListener('contextmenu', preventDefault);
+  element.addEventListener('dragstart', preventDefault);
+
+  return () => {
+    element.removeEventListener('pointerdown', handlePointerDown);
+    element.removeEventListener('pointermove', handlePointerMove);
+    element.removeEventListener('pointerup', handlePointerUp);
+    element.removeEventListener('pointercancel', handlePointerCancel);
+    element.removeEventListener('wheel', handleWheel);
+    element.removeEventListener('contextmenu', preventDefault);
+    element.removeEventListener('dragstart', preventDefault);
+    clearLongPress();
+    if (tapTimer !== null) clearTimeout(tapTimer);
+    if (wheelTimer !== null) clearTimeout(wheelTimer);
+  };
+};
+
+/**
+ * Sets the action for one gesture in one zone. Whole zones are stored so the saved
+ * config doesn't depend on how defaults are merged.
+ */
+export const bindGesture = (bindings: GestureBindings, zone: GestureZone, gesture: GestureType, target: GestureTarget): GestureBindings => ({
+  ...bindings,
+  [zone]: { ...bindings[zone], [gesture]: target },
+});
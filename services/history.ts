@@ -0,0 +1,59 @@
+import { ArtImage } from "../types";
+
+/**
+ * Browser-like image history. `images` includes the image on screen at `index`;
+ * entries after `index` are the forward history.
+ */
+export interface HistoryState {
+  images: ArtImage[];
+  index: number;
+}
+
+export const EMPTY_HISTORY: HistoryState = { images: [], index: -1 };
+
+export const getCurrentImage = (history: HistoryState): ArtImage | null => history.images[history.index] ?? null;
+
+export const canGoBack = (history: HistoryState): boolean => history.index > 0;
+
+export const canGoForward = (history: HistoryState): boolean => history.index < history.images.length - 1;
+
+/**
+ * Shows a new image: drops the forward history, appends the image and trims
+ * the oldest entries so at most `limit` images are kept.
+ */
+export const pushImage = (history: HistoryState, image: ArtImage, limit: number): HistoryState => {
+  const images = [...history.images.slice(0, history.index + 1), image].slice(-Math.max(1, limit));
+  return { images, index: images.length - 1 };
+};
+
+export const goBack = (history: HistoryState): HistoryState =>
+  canGoBack(history) ? { ...history, index: history.index - 1 } : history;
+
+export const goForward = (history: HistoryState): HistoryState =>
+  canGoForward(history) ? { ...history, index: history.index + 1 } : history;
+
+export const jumpTo = (history: HistoryState, index: number): HistoryState =>
+  index >= 0 && index < history.images.length ? { ...history, index } : history;
+
+/**
+ * Applies a smaller size limit, dropping the oldest entries first while
+ * keeping the current image.
+ */
+export const trimHistory = (history: HistoryState, limit: number): HistoryState => {
+  const excess = history.images.length - Math.max(1, limit);
+  if (excess <= 0) return history;
+
+  const drop = Math.min(excess, Math.max(0, history.index));
+  const images = history.images.slice(drop, drop + Math.max(1, limit));
+  return { images, index: history.index - drop };
+};
+
+/**
+ * Keeps the history entries accepted by `keep`. The index stays on the same image,
+ * or moves to the closest earlier one if that image itself was removed.
+ */
+export const filterHistory = (history: HistoryState, keep: (image: ArtImage) => boolean): HistoryState => {
+  const images = history.images.filter(keep);
+  const keptBefore = history.images.slice(0, history.index + 1).filter(keep).length;
+  return { images, index: Math.max(keptBefore - 1, images.length > 0 ? 0 : -1) };
+};
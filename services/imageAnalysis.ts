@@ -0,0 +1,165 @@
+import { ImageAnalysis } from "../types";
+
+/*
+ * Small-scale reads of an image's pixels, for decisions that only need a rough idea
+ * of how light, dark or colorful (parts of) a picture are.
+ */
+
+// Width of the copy a loaded image is analyzed on
+const ANALYSIS_WIDTH = 64;
+const PALETTE_SIZE = 5;
+// Colors closer than this (RGB distance, 0 to 441) count as the same palette entry
+const MIN_PALETTE_DISTANCE = 48;
+// Below this saturation a color is a gray and has no meaningful hue
+const MIN_HUE_SATURATION = 0.15;
+
+export interface PixelSample {
+  pixels: Uint8ClampedArray; // RGBA, row by row
+  width: number;
+  height: number;
+}
+
+// Fractions of the sample's width and height, [start, end)
+export interface SampleRegion {
+  x: [number, number];
+  y: [number, number];
+}
+
+const WHOLE_IMAGE: SampleRegion = { x: [0, 1], y: [0, 1] };
+
+const drawSample = (image: HTMLImageElement, width: number, aspect?: number): PixelSample | null => {
+  const targetAspect = aspect ?? image.naturalWidth / image.naturalHeight;
+  const height = Math.max(1, Math.round(width / targetAspect));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const cropWidth = width / scale;
+  const cropHeight = height / scale;
+  context.drawImage(image, (image.naturalWidth - cropWidth) / 2, (image.naturalHeight - cropHeight) / 2, cropWidth, cropHeight, 0, 0, width, height);
+
+  try {
+    return { pixels: context.getImageData(0, 0, width, height).data, width, height };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Draws the image `width` pixels wide and reads the pixels back. With an `aspect`
+ * the image is cropped to cover that shape, as a screen of that aspect shows it.
+ * Resolves to null when the image can't be read back: remote images served without
+ * CORS headers taint the canvas.
+ */
+export const sampleImage = async (url: string, width: number, aspect?: number): Promise<PixelSample | null> => {
+  const image = new Image();
+  image.src = url;
+  try {
+    await image.decode();
+  } catch {
+    return null;
+  }
+  return drawSample(image, width, aspect);
+};
+
+/**
+ * Mean luminance of a region of the sample, 0 (black) to 1 (white), weighted the way
+ * the eye sees the channels.
+ */
+export const averageLuminance = ({ pixels, width, height }: PixelSample, { x, y }: SampleRegion = WHOLE_IMAGE): number => {
+  let sum = 0;
+  let count = 0;
+  for (let row = Math.floor(y[0] * height); row < Math.ceil(y[1] * height); row++) {
+    for (let column = Math.floor(x[0] * width); column < Math.ceil(x[1] * width); column++) {
+      const i = (row * width + column) * 4;
+      sum += (0.2126 * pixels[i] + 0.7152 * pixels[i + 1] + 0.0722 * pixels[i + 2]) / 255;
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+};
+
+// --- PALETTE ---
+
+type Rgb = [number, number, number];
+
+const toHex = (rgb: Rgb): string => `#${rgb.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+const fromHex = (hex: string): Rgb => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+
+const distance = (a: Rgb, b: Rgb): number => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/**
+ * The most common colors of the sample, most common first. Pixels are grouped into
+ * 512 color boxes; each entry is the average of a box, skipping boxes too close to
+ * an entry already taken.
+ */
+export const extractPalette = ({ pixels }: PixelSample, size = PALETTE_SIZE): string[] => {
+  const boxes = new Map<number, { sum: Rgb; count: number }>();
+  for (let i = 0; i < pixels.length; i += 4) {
+    const key = ((pixels[i] >> 5) << 6) | ((pixels[i + 1] >> 5) << 3) | (pixels[i + 2] >> 5);
+    const box = boxes.get(key) ?? { sum: [0, 0, 0] as Rgb, count: 0 };
+    box.sum[0] += pixels[i];
+    box.sum[1] += pixels[i + 1];
+    box.sum[2] += pixels[i + 2];
+    box.count++;
+    boxes.set(key, box);
+  }
+
+  const palette: Rgb[] = [];
+  for (const { sum, count } of [...boxes.values()].sort((a, b) => b.count - a.count)) {
+    const color = sum.map(channel => channel / count) as Rgb;
+    if (palette.every(taken => distance(taken, color) >= MIN_PALETTE_DISTANCE)) palette.push(color);
+    if (palette.length === size) break;
+  }
+  return palette.map(toHex);
+};
+
+/**
+ * Palette and luminance of a decoded image, or null when its pixels can't be read.
+ */
+export const analyzeImage = (image: HTMLImageElement): ImageAnalysis | null => {
+  const sample = drawSample(image, ANALYSIS_WIDTH);
+  return sample ? { palette: extractPalette(sample), luminance: averageLuminance(sample) } : null;
+};
+
+// --- COLOR ---
+
+export interface Hsl {
+  h: number; // degrees, 0 to 360
+  s: number; // 0 to 1
+  l: number; // 0 to 1
+}
+
+export const toHsl = (hex: string): Hsl => {
+  const [r, g, b] = fromHex(hex).map(channel => channel / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return { h: 0, s: 0, l };
+
+  const s = d / (1 - Math.abs(2 * l - 1));
+  const h = max === r ? ((g - b) / d + 6) % 6 : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return { h: h * 60, s, l };
+};
+
+export const fromHsl = ({ h, s, l }: Hsl): string => {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = l - c / 2;
+  const [r, g, b] = h < 60 ? [c, x, 0] : h < 120 ? [x, c, 0] : h < 180 ? [0, c, x] : h < 240 ? [0, x, c] : h < 300 ? [x, 0, c] : [c, 0, x];
+  return toHex([(r + m) * 255, (g + m) * 255, (b + m) * 255]);
+};
+
+/**
+ * Hue of the most common color that isn't a gray, or null for a black-and-white
+ * or muted image.
+ */
+export const getDominantHue = (analysis: ImageAnalysis): number | null => {
+  const colorful = analysis.palette.map(toHsl).find(hsl => hsl.s >= MIN_HUE_SATURATION && hsl.l > 0.08 && hsl.l < 0.92);
+  return colorful ? colorful.h : null;
+};
@@ -0,0 +1,116 @@
+import { ImageAnalysis } from "../types";
+
+// Cache Storage keeps recently fetched remote images across reloads
+const CACHE_NAME = 'lumina-images';
+// Analysis results of cached images, by remote URL, so each image is analyzed once
+const ANALYSIS_CACHE_NAME = 'lumina-image-analysis';
+const MAX_CACHED_IMAGES = 100;
+// Object URLs pin their blob in memory, so only the most recently used stay alive:
+// enough for the screen, the images loaded ahead and a few steps back
+const MAX_LIVE_URLS = 24;
+
+// Object URLs of cached copies, by remote URL, least recently used first
+const objectUrls = new Map<string, string>();
+
+const isCacheable = (url: string): boolean => /^https?:/.test(url) && 'caches' in window;
+
+// The service worker also caches images the page can't read (opaque, no CORS); those
+// only work as the original address, which the worker then answers from the cache
+const isReadable = (response: Response | undefined): response is Response =>
+  response !== undefined && response.type !== 'opaque';
+
+const getLiveUrl = (url: string): string | undefined => {
+  const objectUrl = objectUrls.get(url);
+  if (objectUrl) {
+    objectUrls.delete(url);
+    objectUrls.set(url, objectUrl);
+  }
+  return objectUrl;
+};
+
+const toObjectUrl = async (url: string, response: Response): Promise<string> => {
+  const objectUrl = URL.createObjectURL(await response.blob());
+  objectUrls.set(url, objectUrl);
+  for (const [oldest, oldestUrl] of objectUrls) {
+    if (objectUrls.size <= MAX_LIVE_URLS) break;
+    URL.revokeObjectURL(oldestUrl);
+    objectUrls.delete(oldest);
+  }
+  return objectUrl;
+};
+
+// Cache keys come back in insertion order, so the oldest go first
+const trimCache = async (cache: Cache) => {
+  const keys = await cache.keys();
+  const analyses = await caches.open(ANALYSIS_CACHE_NAME);
+  for (const request of keys.slice(0, Math.max(0, keys.length - MAX_CACHED_IMAGES))) {
+    await cache.delete(request);
+    await analyses.delete(request.url);
+  }
+};
+
+/**
+ * Returns an object URL for a cached copy of a remote image, fetching and storing it first
+ * when it isn't cached yet. Falls back to the original URL for non-http images and hosts
+ * that don't allow CORS.
+ */
+export const cacheImage = async (url: string): Promise<string> => {
+  if (!isCacheable(url)) return url;
+  const known = getLiveUrl(url);
+  if (known) return known;
+
+  try {
+    const cache = await caches.open(CACHE_NAME);
+    const cached = await cache.match(url);
+    if (isReadable(cached)) return await toObjectUrl(url, cached);
+
+    const response = await fetch(url, { mode: 'cors' });
+    if (!response.ok) return url;
+    await cache.put(url, response.clone());
+    await trimCache(cache);
+    return await toObjectUrl(url, response);
+  } catch (error) {
+    console.warn('Could not cache image:', error);
+    return url;
+  }
+};
+
+/**
+ * Object URL for an image that is already cached, or null. Never touches the network.
+ */
+export const getCachedImageUrl = async (url: string): Promise<string | null> => {
+  if (!isCacheable(url)) return null;
+  const known = getLiveUrl(url);
+  if (known) return known;
+
+  try {
+    const cached = await (await caches.open(CACHE_NAME)).match(url);
+    return isReadable(cached) ? await toObjectUrl(url, cached) : null;
+  } catch {
+    return null;
+  }
+};
+
+const isAnalysis = (value: unknown): value is ImageAnalysis =>
+  typeof value === 'object' && value !== null
+  && Array.isArray((value as ImageAnalysis).palette) && typeof (value as ImageAnalysis).luminance === 'number';
+
+/**
+ * Stored analysis of a remote image, or null when it wasn't analyzed yet.
+ */
+export const getCachedAnalysis = async (url: string): Promise<ImageAnalysis | null> => {
+  if (!isCacheable(url)) return null;
+  try {
+    const cached = await (await caches.open(ANALYSIS_CACHE_NAME)).match(url);
+    const analysis: unknown = cached ? await cached.json() : null;
+    return isAnalysis(analysis) ? analysis : null;
+  } catch {
+    return null;
+  }
+};
+
+export const cacheAnalysis = async (url: string, analysis: ImageAnalysis): Promise<void> => {
+  if (!isCacheable(url)) return;
+  const response = new Response(JSON.stringify(analysis), { headers: { 'Content-Type': 'application/json' } });
+  await (await caches.open(ANALYSIS_CACHE_NAME)).put(url, response);
+};
@@ -0,0 +1,61 @@
+import { ImageProvider, ImageSourceId } from "../types";
+import { picsumProvider } from "./providers/picsumProvider";
+import { localProvider } from "./providers/localProvider";
+import { manifestProvider } from "./providers/manifestProvider";
+import { geminiProvider } from "./providers/geminiProvider";
+import { urlProvider } from "./providers/urlProvider";
+
+const providers = new Map<ImageSourceId, ImageProvider>();
+
+/**
+ * Registers an image provider, replacing any provider with the same id.
+ */
+export const registerProvider = (provider: ImageProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: ImageSourceId): ImageProvider | undefined => providers.get(id);
+
+export const getProviders = (): ImageProvider[] => Array.from(providers.values());
+
+/**
+ * Follows the fallback links starting at `id`, skipping excluded providers.
+ * Picsum and the local library are always included, so every chain ends with
+ * one provider that works online and one that works offline.
+ */
+export const resolveProviderChain = (id: ImageSourceId, exclude: ImageSourceId[] = []): ImageProvider[] => {
+  const chain: ImageProvider[] = [];
+  const visited = new Set<ImageSourceId>();
+  let next: ImageSourceId | null = id;
+
+  while (next && !visited.has(next)) {
+    visited.add(next);
+    const provider = providers.get(next);
+    if (!provider) break;
+    if (!exclude.includes(provider.id)) chain.push(provider);
+    next = provider.fallback;
+  }
+
+  [picsumProvider, localProvider].forEach(provider => {
+    if (!visited.has(provider.id) && !exclude.includes(provider.id)) {
+      visited.add(provider.id);
+      chain.push(provider);
+    }
+  });
+  return chain;
+};
+
+/**
+ * Rejects when the promise does not settle in time, so a hanging provider can't block the chain.
+ */
+export const withTimeout = <T,>(promise: Promise<T>, ms: number, label: string): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+};
+
+[picsumProvider, localProvider, manifestProvider, geminiProvider, urlProvider].forEach(registerProvider);
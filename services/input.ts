@@ -0,0 +1,214 @@
+import { AppConfig, InputAction } from "../types";
+
+/*
+ * Keyboards, TV remotes and gamepads all become input tokens: the KeyboardEvent key
+ * ('ArrowRight', 'MediaPlayPause', 'f', 'Space', ...) or 'Gamepad<button>'. The gamepad
+ * D-pad, A and B produce the same tokens as arrow keys, Enter and Escape, so menus
+ * work the same with every device.
+ */
+
+export const DEFAULT_BINDINGS: Record<InputAction, string[]> = {
+  [InputAction.Next]: ['ArrowRight', 'MediaTrackNext', 'PageDown', 'Gamepad5'],
+  [InputAction.Previous]: ['ArrowLeft', 'MediaTrackPrevious', 'PageUp', 'Gamepad4'],
+  [InputAction.PlayPause]: ['Space', 'MediaPlayPause', 'k', 'Gamepad9'],
+  [InputAction.BrightnessUp]: ['ArrowUp', '+', 'Gamepad7'],
+  [InputAction.BrightnessDown]: ['ArrowDown', '-', 'Gamepad6'],
+  [InputAction.OpenMenu]: ['Enter', 'm', 'ContextMenu', 'Gamepad0'],
+  [InputAction.CycleFilter]: ['f', 'ColorF0Red', 'Gamepad3'],
+  [InputAction.ToggleCaption]: ['i', 'Info', 'Gamepad2'],
+  [InputAction.RateImage]: ['r', 'ColorF1Green'],
+  [InputAction.Like]: ['l'],
+  [InputAction.Dislike]: ['d'],
+  [InputAction.Ban]: ['Delete'],
+};
+
+// Close the menu (or cancel rebinding); not rebindable so there is always a way out
+export const BACK_TOKENS = ['Escape', 'GoBack', 'BrowserBack', 'Backspace'];
+
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock', 'Dead'];
+
+// Standard gamepad mapping: D-pad and face buttons double as keys
+const GAMEPAD_KEYS: Record<number, string> = {
+  0: 'Enter',
+  1: 'Escape',
+  12: 'ArrowUp',
+  13: 'ArrowDown',
+  14: 'ArrowLeft',
+  15: 'ArrowRight',
+};
+
+const GAMEPAD_LABELS = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Select', 'Start', 'L3', 'R3'];
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  MediaTrackNext: 'Media Next',
+  MediaTrackPrevious: 'Media Previous',
+  MediaPlayPause: 'Media Play',
+  ColorF0Red: 'Red Button',
+  ColorF1Green: 'Green Button',
+  ContextMenu: 'Menu Key',
+  Info: 'Info Button',
+};
+
+export const getBindings = (config: Pick<AppConfig, 'keyBindings'>): Record<InputAction, string[]> => ({
+  ...DEFAULT_BINDINGS,
+  ...config.keyBindings,
+});
+
+export const findAction = (bindings: Record<InputAction, string[]>, token: string): InputAction | null =>
+  (Object.keys(bindings) as InputAction[]).find(action => bindings[action].includes(token)) ?? null;
+
+/**
+ * Token for a key press, or null for modifier keys on their own.
+ * Letters are lowercased so bindings don't depend on Shift or Caps Lock.
+ */
+export const toInputToken = (event: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+  if (event.key === ' ') return 'Space';
+  if (event.key === 'Unidentified') return event.code || null;
+  return event.key.length === 1 ? event.key.toLowerCase() : event.key;
+};
+
+export const formatInputToken = (token: string): string => {
+  const gamepad = /^Gamepad(\d+)$/.exec(token);
+  if (gamepad) return `Pad ${GAMEPAD_LABELS[Number(gamepad[1])] ?? gamepad[1]}`;
+  return KEY_LABELS[token] ?? (token.length === 1 ? token.toUpperCase() : token);
+};
+
+/**
+ * Polls connected gamepads once per frame and reports each button press (not hold) as
+ * a token. Polling only runs while a gamepad is connected. Returns a stop function.
+ */
+export const startGamepadPolling = (onToken: (token: string) => void): (() => void) => {
+  if (!('getGamepads' in navigator)) return () => undefined;
+
+  const pressed = new Map<number, boolean[]>();
+  let frame: number | null = null;
+
+  const poll = () => {
+    const pads = navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null);
+    pads.forEach(pad => {
+      const before = pressed.get(pad.index) ?? [];
+      const now = pad.buttons.map(button => button.pressed);
+      now.forEach((down, button) => {
+        if (down && !before[button]) onToken(GAMEPAD_KEYS[button] ?? `Gamepad${button}`);
+      });
+      pressed.set(pad.index, now);
+    });
+    frame = pads.length > 0 ? requestAnimationFrame(poll) : null;
+  };
+
+  const handleConnected = () => {
+    if (frame === null) frame = requestAnimationFrame(poll);
+  };
+  window.addEventListener('gamepadconnected', handleConnected);
+  // A pad connected before the page loaded doesn't fire the event
+  handleConnected();
+
+  return () => {
+    window.removeEventListener('gamepadconnected', handleConnected);
+    if (frame !== null) cancelAnimationFrame(frame);
+  };
+};
+
+export type FocusDirection = 'up' | 'down' | 'left' | 'right';
+
+export const ARROW_DIRECTIONS: Record<string, FocusDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled]), select:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Whether an arrow key belongs to the focused control itself: sliders and text fields
+ * use left/right, select boxes up/down.
+ */
+export const isNativeArrow = (element: Element | null, direction: FocusDirection): boolean => {
+  const horizontal = direction === 'left' || direction === 'right';
+  if (element instanceof HTMLInputElement) return horizontal && element.type !== 'checkbox';
+  if (element instanceof HTMLSelectElement) return !horizontal;
+  return false;
+};
+
+// Input types that don't take typed text; Backspace there means back
+const NON_TEXT_INPUTS = ['checkbox', 'radio', 'range', 'button', 'submit', 'reset', 'color', 'file', 'image'];
+
+/**
+ * Whether the element takes typed text (text, number, URL and PIN fields, text areas),
+ * so Backspace edits it instead of going back.
+ */
+export const isTextEntry = (element: Element | null): boolean =>
+  (element instanceof HTMLInputElement && !NON_TEXT_INPUTS.includes(element.type))
+  || element instanceof HTMLTextAreaElement
+  || (element instanceof HTMLElement && element.isContentEditable);
+
+/**
+ * D-pad style focus movement: focuses the nearest visible control inside `root` in the
+ * given direction, preferring controls in line with the current one. Focuses the first
+ * control when nothing inside `root` has focus yet.
+ */
+export const moveFocusSpatially = (root: HTMLElement, direction: FocusDirection) => {
+  const candidates = Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE))
+    .filter(element => element.getClientRects().length > 0);
+  const current = document.activeElement instanceof HTMLElement && root.contains(document.activeElement)
+    ? document.activeElement
+    : null;
+
+  if (!current) {
+    candidates[0]?.focus();
+    return;
+  }
+
+  const from = current.getBoundingClientRect();
+  const fromX = from.left + from.width / 2;
+  const fromY = from.top + from.height / 2;
+
+  let best: HTMLElement | null = null;
+  let bestScore = Infinity;
+  for (const element of candidates) {
+    if (element === current) continue;
+    const rect = element.getBoundingClientRect();
+    const dx = rect.left + rect.width / 2 - fromX;
+    const dy = rect.top + rect.height / 2 - fromY;
+
+    const along = direction === 'left' ? -dx : direction === 'right' ? dx : direction === 'up' ? -dy : dy;
+    const across = direction === 'left' || direction === 'right' ? Math.abs(dy) : Math.abs(dx);
+    if (along <= 1) continue;
+
+    // Sideways offset counts double, so moving right stays on the same row if it can
+    const score = along + across * 2;
+    if (score < bestScore) {
+      bestScore = score;
+      best = element;
+    }
+  }
+
+  if (best) {
+    best.focus();
+    best.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }
+};
+
+/**
+ * Binds `token` to `action`, taking it away from whatever action had it before,
+ * since one key can only do one thing.
+ */
+export const bindToken = (bindings: Record<InputAction, string[]>, action: InputAction, token: string): Record<InputAction, string[]> => {
+  const next = { ...bindings };
+  (Object.keys(next) as InputAction[]).forEach(other => {
+    next[other] = next[other].filter(bound => bound !== token);
+  });
+  next[action] = [...next[action], token];
+  return next;
+};
+
+export const unbindToken = (bindings: Record<InputAction, string[]>, action: InputAction, token: string): Record<InputAction, string[]> => ({
+  ...bindings,
+  [action]: bindings[action].filter(bound => bound !== token),
+});
@@ -0,0 +1,62 @@
+import { AppConfig, GestureAction, GestureTarget, GestureZone, InputAction, KioskPermission } from "../types";
+
+/*
+ * Kiosk mode keeps passers-by from changing a frame in a public place. While locked,
+ * only the permitted actions work and the menu stays shut unless it is permitted too;
+ * whatever they do change is undone after a while without input. Staff unlock with a
+ * hidden sequence of long presses, followed by the PIN when one is set.
+ */
+
+// Long presses in these zones, in order, start unlocking
+export const UNLOCK_SEQUENCE: GestureZone[] = [GestureZone.Left, GestureZone.Right, GestureZone.Left];
+// ...all within this long
+const UNLOCK_WINDOW_MS = 10000;
+// Wrong PINs in a row before the pad stops accepting tries for a while
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MS = 30000;
+
+const PERMITTED_ACTIONS: Record<KioskPermission, GestureTarget[]> = {
+  [KioskPermission.Navigate]: [InputAction.Next, InputAction.Previous],
+  [KioskPermission.PlayPause]: [InputAction.PlayPause],
+  [KioskPermission.Brightness]: [InputAction.BrightnessUp, InputAction.BrightnessDown, GestureAction.SlideBrightness],
+  [KioskPermission.Filters]: [InputAction.CycleFilter],
+  [KioskPermission.Caption]: [InputAction.ToggleCaption],
+  [KioskPermission.Rating]: [InputAction.RateImage, InputAction.Like, InputAction.Dislike, InputAction.Ban],
+  [KioskPermission.Settings]: [InputAction.OpenMenu, GestureAction.ToggleMenu],
+};
+
+export const isPermitted = (allowed: KioskPermission[], target: GestureTarget): boolean =>
+  allowed.some(permission => PERMITTED_ACTIONS[permission].includes(target));
+
+export interface ZonePress {
+  zone: GestureZone;
+  at: number; // ms timestamp
+}
+
+/**
+ * Whether the latest long presses, newest last, end in the unlock sequence.
+ */
+export const completesUnlockSequence = (presses: ZonePress[]): boolean => {
+  if (presses.length < UNLOCK_SEQUENCE.length) return false;
+  const recent = presses.slice(-UNLOCK_SEQUENCE.length);
+  return recent.every((press, i) => press.zone === UNLOCK_SEQUENCE[i])
+    && recent[recent.length - 1].at - recent[0].at <= UNLOCK_WINDOW_MS;
+};
+
+export const isValidPin = (pin: string): boolean => /^\d{4,8}$/.test(pin);
+
+/**
+ * The locked settings with the current kiosk settings, which reverting never touches,
+ * or null when nothing differs.
+ */
+export const getRevertedConfig = (config: AppConfig, locked: AppConfig): AppConfig | null => {
+  const reverted: AppConfig = {
+    ...locked,
+    kioskEnabled: config.kioskEnabled,
+    kioskPin: config.kioskPin,
+    kioskAllowed: config.kioskAllowed,
+    kioskRevertAfter: config.kioskRevertAfter,
+  };
+  const changed = (Object.keys(reverted) as (keyof AppConfig)[]).some(field => JSON.stringify(reverted[field]) !== JSON.stringify(config[field]));
+  return changed ? reverted : null;
+};
@@ -0,0 +1,52 @@
+import type { CSSProperties } from 'react';
+import { LayoutMode } from "../types";
+
+export interface LayoutCell {
+  style: CSSProperties; // grid placement
+  fraction: { x: number; y: number }; // share of the opening's width and height
+}
+
+export interface LayoutSpec {
+  grid: CSSProperties;
+  cells: LayoutCell[];
+}
+
+const cell = (x: number, y: number, style: CSSProperties = {}): LayoutCell => ({ style, fraction: { x, y } });
+
+/**
+ * Grid for a layout. Side-by-side layouts stack vertically on portrait screens;
+ * the gallery wall puts one large image next to four small ones.
+ */
+export const getLayoutSpec = (layout: LayoutMode, portrait: boolean): LayoutSpec => {
+  const strip = (count: number): LayoutSpec => ({
+    grid: portrait
+      ? { gridTemplateColumns: '1fr', gridTemplateRows: `repeat(${count}, 1fr)` }
+      : { gridTemplateColumns: `repeat(${count}, 1fr)`, gridTemplateRows: '1fr' },
+    cells: Array.from({ length: count }, () => (portrait ? cell(1, 1 / count) : cell(1 / count, 1))),
+  });
+
+  switch (layout) {
+    case LayoutMode.Diptych:
+      return strip(2);
+    case LayoutMode.Triptych:
+      return strip(3);
+    case LayoutMode.GalleryWall: {
+      const [columns, rows] = portrait ? [2, 4] : [4, 2];
+      const feature = portrait
+        ? cell(1, 0.5, { gridColumn: 'span 2', gridRow: 'span 2' })
+        : cell(0.5, 1, { gridColumn: 'span 2', gridRow: 'span 2' });
+      return {
+        grid: { gridTemplateColumns: `repeat(${columns}, 1fr)`, gridTemplateRows: `repeat(${rows}, 1fr)` },
+        cells: [feature, ...Array.from({ length: 4 }, () => cell(1 / columns, 1 / rows))],
+      };
+    }
+    case LayoutMode.Single:
+    default:
+      return { grid: { gridTemplateColumns: '1fr', gridTemplateRows: '1fr' }, cells: [cell(1, 1)] };
+  }
+};
+
+export const getLayoutCellCount = (layout: LayoutMode): number => getLayoutSpec(layout, false).cells.length;
+
+// Matte between openings: half the matte width, but never flush
+export const getCellGap = (matteWidth: number): number => Math.max(8, Math.round(matteWidth / 2));
@@ -0,0 +1,130 @@
+import { ImageAnalysis, LibraryImage } from "../types";
+import { readImageMetadata } from "./metadata";
+
+const DB_NAME = 'lumina-library';
+const DB_VERSION = 1;
+const STORE = 'images';
+const THUMBNAIL_SIZE = 320;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('tags', 'tags', { multiEntry: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a single-request transaction in a promise
+const run = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Decodes the file once to read its size and render a small JPEG thumbnail.
+ */
+const createThumbnail = async (file: Blob): Promise<{ thumbnail: Blob; width: number; height: number }> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+  const thumbnail = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Thumbnail encoding failed'))), 'image/jpeg', 0.8);
+  });
+  const size = { thumbnail, width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+};
+
+/**
+ * Stores the image files with the given tags. Non-image files and files that
+ * fail to decode are skipped; resolves to the records that were added.
+ */
+export const addImages = async (files: FileList | File[], tags: string[]): Promise<LibraryImage[]> => {
+  const added: LibraryImage[] = [];
+
+  for (const file of Array.from(files)) {
+    if (!file.type.startsWith('image/')) continue;
+
+    try {
+      const { thumbnail, width, height } = await createThumbnail(file);
+      const record: LibraryImage = {
+        id: `${file.name}-${file.size}-${file.lastModified}`,
+        name: file.name,
+        blob: file,
+        thumbnail,
+        tags,
+        width,
+        height,
+        addedAt: Date.now(),
+        metadata: await readImageMetadata(file, file.name),
+      };
+      await run('readwrite', store => store.put(record));
+      added.push(record);
+    } catch (error) {
+      console.error(`Could not import ${file.name}:`, error);
+    }
+  }
+
+  return added;
+};
+
+export const listImages = (): Promise<LibraryImage[]> => run('readonly', store => store.getAll());
+
+export const getImage = (id: string): Promise<LibraryImage | undefined> => run('readonly', store => store.get(id));
+
+export const listImageIdsByTag = async (tag: string): Promise<string[]> => {
+  const keys = await run('readonly', store => store.index('tags').getAllKeys(tag));
+  return keys.map(String);
+};
+
+export const listImageIds = async (): Promise<string[]> => {
+  const keys = await run('readonly', store => store.getAllKeys());
+  return keys.map(String);
+};
+
+export const deleteImage = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+/**
+ * Merges `changes` into a stored record, reading and writing it in one transaction so
+ * an update that finishes meanwhile (analysis runs long after import) isn't overwritten.
+ * Does nothing when the image was deleted.
+ */
+const updateImage = async (id: string, changes: Partial<LibraryImage>): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, ...changes });
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const updateImageTags = (id: string, tags: string[]): Promise<void> => updateImage(id, { tags });
+
+export const updateImageAnalysis = (id: string, analysis: ImageAnalysis): Promise<void> => updateImage(id, { analysis });
@@ -0,0 +1,180 @@
+import { ImageMetadata } from "../types";
+
+// EXIF sits in the first APP1 segment, well within this much of the file
+const EXIF_SCAN_BYTES = 256 * 1024;
+
+const TAG_IMAGE_DESCRIPTION = 0x010e;
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_DATE_TIME = 0x0132;
+const TAG_ARTIST = 0x013b;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_EXPOSURE_TIME = 0x829a;
+const TAG_F_NUMBER = 0x829d;
+const TAG_ISO = 0x8827;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_FOCAL_LENGTH = 0x920a;
+
+// Byte size of one value per TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type ExifValue = string | number;
+
+/**
+ * Reads one IFD into a tag → first value map. Only the types the caption uses are decoded.
+ */
+const readIfd = (view: DataView, tiff: number, offset: number, little: boolean): Map<number, ExifValue> => {
+  const tags = new Map<number, ExifValue>();
+  const count = view.getUint16(tiff + offset, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = tiff + offset + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const length = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] ?? 0) * length;
+    if (size === 0) continue;
+    const at = size <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little);
+
+    if (type === 2) {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + at, length);
+      const text = new TextDecoder().decode(bytes).replace(/\0.*$/s, '').trim();
+      if (text) tags.set(tag, text);
+    } else if (type === 3) {
+      tags.set(tag, view.getUint16(at, little));
+    } else if (type === 4) {
+      tags.set(tag, view.getUint32(at, little));
+    } else if (type === 5) {
+      const denominator = view.getUint32(at + 4, little);
+      if (denominator) tags.set(tag, view.getUint32(at, little) / denominator);
+    }
+  }
+  return tags;
+};
+
+/**
+ * Finds the EXIF block of a JPEG and returns its IFD0 and EXIF tags merged.
+ */
+const readExifTags = (buffer: ArrayBuffer): Map<number, ExifValue> => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return new Map();
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // image data starts, no EXIF
+    const size = view.getUint16(offset + 2);
+
+    // "Exif\0\0" followed by a TIFF header
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      if (view.getUint16(tiff + 2, little) !== 42) break;
+
+      const tags = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+      const exifOffset = tags.get(TAG_EXIF_IFD);
+      if (typeof exifOffset === 'number') {
+        readIfd(view, tiff, exifOffset, little).forEach((value, tag) => tags.set(tag, value));
+      }
+      return tags;
+    }
+    offset += 2 + size;
+  }
+  return new Map();
+};
+
+// "2023:06:01 14:22:05" → "2023-06-01T14:22:05"
+const parseExifDate = (value: ExifValue | undefined): string | undefined => {
+  const match = typeof value === 'string' ? /^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}:\d{2})/.exec(value) : null;
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}` : undefined;
+};
+
+const formatExposure = (tags: Map<number, ExifValue>): string | undefined => {
+  const number = (tag: number) => {
+    const value = tags.get(tag);
+    return typeof value === 'number' && value > 0 ? value : undefined;
+  };
+  const time = number(TAG_EXPOSURE_TIME);
+  const aperture = number(TAG_F_NUMBER);
+  const iso = number(TAG_ISO);
+  const focal = number(TAG_FOCAL_LENGTH);
+
+  const parts = [
+    time && (time < 1 ? `1/${Math.round(1 / time)} s` : `${time} s`),
+    aperture && `f/${Math.round(aperture * 10) / 10}`,
+    iso && `ISO ${iso}`,
+    focal && `${Math.round(focal)} mm`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : undefined;
+};
+
+// Models often repeat the make ("Canon" + "Canon EOS R6")
+const formatCamera = (tags: Map<number, ExifValue>): string | undefined => {
+  const make = tags.get(TAG_MAKE);
+  const model = tags.get(TAG_MODEL);
+  if (typeof model !== 'string') return typeof make === 'string' ? make : undefined;
+  return typeof make === 'string' && !model.toLowerCase().startsWith(make.toLowerCase()) ? `${make} ${model}` : model;
+};
+
+// "IMG_2041-final.jpg" → "IMG 2041 final"
+export const titleFromFileName = (name: string): string =>
+  name.replace(/\.[a-z0-9]+$/i, '').replace(/[_-]+/g, ' ').trim();
+
+// Title from the last path segment, if there is a readable one
+export const titleFromUrl = (url: string): string | undefined => {
+  try {
+    const fileName = decodeURIComponent(new URL(url, window.location.href).pathname.split('/').pop() ?? '');
+    return titleFromFileName(fileName) || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Title from the file name plus whatever the EXIF data has; files without EXIF
+ * (or with unreadable EXIF) just get the title.
+ */
+export const readImageMetadata = async (file: Blob, name: string): Promise<ImageMetadata> => {
+  const metadata: ImageMetadata = { title: titleFromFileName(name) };
+  if (file.type !== 'image/jpeg') return metadata;
+
+  try {
+    const tags = readExifTags(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+    const description = tags.get(TAG_IMAGE_DESCRIPTION);
+    const artist = tags.get(TAG_ARTIST);
+    return {
+      title: typeof description === 'string' ? description : metadata.title,
+      author: typeof artist === 'string' ? artist : undefined,
+      capturedAt: parseExifDate(tags.get(TAG_DATE_TIME_ORIGINAL) ?? tags.get(TAG_DATE_TIME)),
+      camera: formatCamera(tags),
+      exposure: formatExposure(tags),
+    };
+  } catch (error) {
+    // Truncated or malformed EXIF reads past the buffer
+    console.warn(`Could not read EXIF of ${name}:`, error);
+    return metadata;
+  }
+};
+
+/**
+ * Caption date: a full date when there is one, a bare year ("1889") as is.
+ */
+export const formatCaptionDate = (value: string): string => {
+  if (/^\d{1,4}$/.test(value)) return value;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+// "https://unsplash.com/photos/..." → "unsplash.com"
+export const getSourceLabel = (sourceUrl: string): string => {
+  try {
+    return new URL(sourceUrl).hostname.replace(/^www\./, '');
+  } catch {
+    return sourceUrl;
+  }
+};
+
+export const hasCaption = (metadata: ImageMetadata | undefined): boolean =>
+  Boolean(metadata && (metadata.title || metadata.author || metadata.capturedAt || metadata.sourceUrl));
@@ -0,0 +1,99 @@
+import type { CSSProperties } from 'react';
+import { Orientation } from "../types";
+
+// Clockwise turn of the picture on the physical screen
+export type Rotation = 0 | 90 | 180 | 270;
+
+const FIXED_ROTATIONS: Partial<Record<Orientation, Rotation>> = {
+  [Orientation.Rotate90]: 90,
+  [Orientation.Rotate180]: 180,
+  [Orientation.Rotate270]: 270,
+};
+
+/**
+ * How far to turn the picture in software. The rotated settings are for displays
+ * mounted sideways or upside down; forced landscape or portrait turns the picture a
+ * quarter whenever the screen couldn't be locked that way (desktops, most TVs).
+ */
+export const getRotation = (orientation: Orientation, viewportAspect: number): Rotation => {
+  const fixed = FIXED_ROTATIONS[orientation];
+  if (fixed !== undefined) return fixed;
+  if (orientation === Orientation.Landscape && viewportAspect < 1) return 90;
+  if (orientation === Orientation.Portrait && viewportAspect > 1) return 90;
+  return 0;
+};
+
+export const isQuarterTurn = (rotation: Rotation): boolean => rotation === 90 || rotation === 270;
+
+// Aspect ratio of the picture as seen, after rotation
+export const getFrameAspect = (viewportAspect: number, rotation: Rotation): number =>
+  isQuarterTurn(rotation) ? 1 / viewportAspect : viewportAspect;
+
+/**
+ * Size and transform of the element holding the whole picture. A quarter turn swaps
+ * width and height and turns around the top left corner, shifted back into view.
+ * `--frame-height` is the picture's height for content that would use `vh`.
+ */
+export const getRotationStyle = (rotation: Rotation): CSSProperties => {
+  const width = isQuarterTurn(rotation) ? '100vh' : '100vw';
+  const height = isQuarterTurn(rotation) ? '100vw' : '100vh';
+  const transforms: Record<Rotation, string | undefined> = {
+    0: undefined,
+    90: 'rotate(90deg) translateY(-100%)',
+    180: 'rotate(180deg)',
+    270: 'rotate(-90deg) translateX(-100%)',
+  };
+  return {
+    width,
+    height,
+    transform: transforms[rotation],
+    transformOrigin: rotation === 180 ? 'center' : 'top left',
+    ['--frame-height' as string]: height,
+  };
+};
+
+/**
+ * Maps a point relative to the element's on-screen box back into the element's own
+ * coordinates. `width` and `height` are the element's unrotated size.
+ */
+export const toLocalPoint = (rotation: Rotation, x: number, y: number, width: number, height: number): { x: number; y: number } => {
+  switch (rotation) {
+    case 90:
+      return { x: y, y: height - x };
+    case 180:
+      return { x: width - x, y: height - y };
+    case 270:
+      return { x: width - y, y: x };
+    default:
+      return { x, y };
+  }
+};
+
+type ArrowDirection = 'up' | 'right' | 'down' | 'left';
+const CLOCKWISE: ArrowDirection[] = ['up', 'right', 'down', 'left'];
+
+// An arrow as seen in the picture, as a direction on the physical screen
+export const rotateDirection = <D extends ArrowDirection>(direction: D, rotation: Rotation): D =>
+  CLOCKWISE[(CLOCKWISE.indexOf(direction) + rotation / 90) % 4] as D;
+
+type LockableOrientation = ScreenOrientation & {
+  lock?: (orientation: 'landscape' | 'portrait') => Promise<void>;
+  unlock?: () => void;
+};
+
+/**
+ * Asks the browser to hold the screen in a forced orientation. Most only allow it
+ * fullscreen or in an installed app; software rotation covers the rest.
+ */
+export const lockOrientation = (orientation: Orientation) => {
+  const screenOrientation = screen.orientation as LockableOrientation | undefined;
+  if (!screenOrientation) return;
+
+  if (orientation === Orientation.Landscape || orientation === Orientation.Portrait) {
+    screenOrientation.lock?.(orientation === Orientation.Landscape ? 'landscape' : 'portrait').catch(() => {
+      // Not supported here; the picture is turned in software instead
+    });
+  } else {
+    screenOrientation.unlock?.();
+  }
+};
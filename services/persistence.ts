@@ -0,0 +1,220 @@
+import { AppConfig, ArtImage, ImageDisplaySettings, Profile, Rating } from "../types";
+import { EMPTY_HISTORY, HistoryState, filterHistory, trimHistory } from "./history";
+import { LegacyGenreConfig, migrateGenreConfig } from "./playlists";
+import { BUILT_IN_FRAMES, createFrame } from "./frames";
+import { getLibraryImageUrl } from "./providers/localProvider";
+import { getCachedImageUrl } from "./imageCache";
+import { getImageKey } from "./fitting";
+import { Ratings } from "./ratings";
+
+const STORAGE_KEY = 'lumina-frame-state';
+
+// Bump together with a new entry in MIGRATIONS whenever the stored shape changes
+export const STATE_VERSION = 7;
+
+export interface PersistedState {
+  version: number;
+  config: AppConfig;
+  history: HistoryState;
+  ratings: Ratings;
+  imageSettings: Record<string, ImageDisplaySettings>; // keyed by getImageKey
+  profiles: Profile[];
+  lockedConfig: AppConfig | null; // settings kiosk mode returns to, see services/kiosk.ts
+}
+
+// Schedule rule of v3, which overrode the filter by preset name
+interface ScheduleRuleV3 {
+  overrides?: { filterPreset?: string; [field: string]: unknown };
+  [field: string]: unknown;
+}
+
+// Config as written by any version, with the fields that later versions replaced
+interface StoredConfig extends Partial<LegacyGenreConfig> {
+  filterPreset?: string; // v3
+  frameStyle?: string; // v4
+  frameWidth?: number; // v4
+  remoteRelayUrl?: string; // v5
+  [field: string]: unknown;
+}
+
+// State as written by any version; nothing in it is trusted beyond its shape
+interface StoredState {
+  version?: number;
+  config?: StoredConfig;
+  currentImage?: ArtImage; // v2
+  historyIndex?: number; // v2
+  favorites?: ArtImage[]; // v6
+  [field: string]: unknown;
+}
+
+type Migration = (state: StoredState) => StoredState;
+
+// Each entry upgrades a stored state of version `key` to version `key + 1`
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 played one fixed genre; v2 replaced it with playlists
+  1: state => {
+    const { genre, sources, manifestUrl, ...config } = state.config ?? {};
+    return { ...state, config: { ...config, ...migrateGenreConfig({ genre, sources, manifestUrl }) } };
+  },
+  // v2 kept the current image apart from a list of previous images; v3 keeps
+  // one list with the current image at `index` and forward entries after it
+  2: ({ currentImage, history, historyIndex = -1, ...state }) => {
+    const images: ArtImage[] = Array.isArray(history) ? history.slice(0, historyIndex + 1) : [];
+    if (currentImage) images.push(currentImage);
+    return { ...state, history: { images, index: images.length - 1 } };
+  },
+  // v3 picked one of the fixed filter presets; v4 references a filter by id,
+  // and the built-in presets keep their name as id
+  3: state => {
+    const { filterPreset, ...config } = state.config ?? {};
+    const rules: ScheduleRuleV3[] = Array.isArray(config.schedule) ? config.schedule : [];
+    const schedule = rules.map(({ overrides: { filterPreset: ruleFilter, ...overrides } = {}, ...rule }) => ({
+      ...rule,
+      overrides: ruleFilter ? { ...overrides, filterId: ruleFilter } : overrides,
+    }));
+    return { ...state, config: { ...config, ...(filterPreset ? { filterId: filterPreset } : {}), schedule } };
+  },
+  // v4 combined a fixed frame style with a global width; v5 references a frame
+  // definition. A width other than the built-in one becomes a custom frame.
+  4: state => {
+    const { frameStyle, frameWidth, ...config } = state.config ?? {};
+    const builtIn = BUILT_IN_FRAMES.find(frame => frame.id === frameStyle);
+    if (!builtIn) return { ...state, config };
+
+    if (builtIn.width === 0 || frameWidth === undefined || frameWidth === builtIn.width) {
+      return { ...state, config: { ...config, frameId: builtIn.id } };
+    }
+    const custom = { ...createFrame(`${builtIn.name} ${frameWidth}px`, builtIn), width: frameWidth };
+    return { ...state, config: { ...config, frameId: custom.id, customFrames: [custom] } };
+  },
+  // v5 had a relay for remote control only; v6 shares it with sync groups
+  5: state => {
+    const { remoteRelayUrl, ...config } = state.config ?? {};
+    return { ...state, config: { ...config, ...(remoteRelayUrl !== undefined ? { relayUrl: remoteRelayUrl } : {}) } };
+  },
+  // v6 kept a list of favorite images; v7 rates images, and favorites become likes
+  6: ({ favorites = [], ...state }) => {
+    const ratings: Ratings = {};
+    favorites.forEach((image, index) => {
+      ratings[getImageKey(image)] = { image, rating: Rating.Like, ratedAt: index };
+    });
+    return { ...state, ratings };
+  },
+};
+
+/**
+ * Upgrades a config written by state version `version`, e.g. one from an exported
+ * profile, through the same migrations as the stored state.
+ */
+export const migrateConfig = (config: unknown, version: number): unknown => {
+  let state: StoredState = { config: config as StoredConfig };
+  for (let step = version; step < STATE_VERSION; step++) {
+    state = MIGRATIONS[step](state);
+  }
+  return state.config;
+};
+
+const createState = (defaults: AppConfig): PersistedState => ({
+  version: STATE_VERSION,
+  config: defaults,
+  history: EMPTY_HISTORY,
+  ratings: {},
+  imageSettings: {},
+  profiles: [],
+  lockedConfig: null,
+});
+
+/**
+ * Reads the stored state, upgrading older versions step by step.
+ * Config fields added since the state was written take their default value.
+ * Falls back to defaults when nothing is stored or the data can't be read.
+ */
+export const loadPersistedState = (defaults: AppConfig): PersistedState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return createState(defaults);
+
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed !== 'object' || parsed === null) return createState(defaults);
+
+    let state = parsed as StoredState;
+    const storedVersion = state.version ?? 1;
+    let version = storedVersion;
+    if (version > STATE_VERSION) {
+      console.warn(`Stored state v${version} is newer than this build, using defaults`);
+      return createState(defaults);
+    }
+
+    while (version < STATE_VERSION) {
+      state = MIGRATIONS[version](state);
+      version++;
+    }
+
+    // Migrated, the state has the current shape; config fields added since are missing
+    const current = state as Partial<Omit<PersistedState, 'config'>> & { config?: Partial<AppConfig> };
+    const config: AppConfig = { ...defaults, ...current.config };
+    const images: ArtImage[] = Array.isArray(current.history?.images) ? current.history.images : [];
+    const index = Math.max(Math.min(current.history?.index ?? -1, images.length - 1), images.length > 0 ? 0 : -1);
+    return {
+      version: STATE_VERSION,
+      config,
+      history: trimHistory({ images, index }, config.historySize),
+      ratings: current.ratings && typeof current.ratings === 'object' ? current.ratings : {},
+      imageSettings: current.imageSettings ?? {},
+      profiles: Array.isArray(current.profiles) ? current.profiles : [],
+      // Kept apart from `config`, so it goes through the config migrations on its own
+      lockedConfig: state.lockedConfig ? { ...defaults, ...(migrateConfig(state.lockedConfig, storedVersion) as object) } : null,
+    };
+  } catch (error) {
+    console.error('Could not restore saved state:', error);
+    return createState(defaults);
+  }
+};
+
+// Generated images are inline data URLs and too large for localStorage
+const isPersistable = (image: ArtImage): boolean => !image.url.startsWith('data:');
+
+// Cached copies are object URLs; the saved state keeps the real address
+export const toStoredImage = ({ remoteUrl, ...image }: ArtImage): ArtImage => (remoteUrl ? { ...image, url: remoteUrl } : image);
+
+export const savePersistedState = (state: Omit<PersistedState, 'version'>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      version: STATE_VERSION,
+      config: state.config,
+      history: filterHistory({ ...state.history, images: state.history.images.map(toStoredImage) }, isPersistable),
+      ratings: Object.fromEntries(Object.entries(state.ratings).filter(([, entry]) => isPersistable(entry.image))),
+      imageSettings: state.imageSettings,
+      profiles: state.profiles,
+      lockedConfig: state.lockedConfig,
+    }));
+  } catch (error) {
+    // Quota exceeded or storage disabled (private mode); keep running unpersisted
+    console.error('Could not save state:', error);
+  }
+};
+
+export const clearPersistedState = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Object URLs of library images don't survive a reload: looks them up again by id.
+ * Resolves to null when the image was deleted from the library meanwhile.
+ * Remote images switch to their cached copy when there is one; the object URL they
+ * had may have been released since.
+ */
+export const restoreImage = async (image: ArtImage): Promise<ArtImage | null> => {
+  if (image.source !== 'local') {
+    const stored = toStoredImage(image);
+    const cached = await getCachedImageUrl(stored.url);
+    return cached ? { ...stored, url: cached, remoteUrl: stored.url } : stored;
+  }
+  const url = await getLibraryImageUrl(image.id);
+  return url ? { ...image, url } : null;
+};
+
+export const restoreHistory = async (history: HistoryState): Promise<HistoryState> => {
+  const restored = await Promise.all(history.images.map(restoreImage));
+  return filterHistory({ images: restored as ArtImage[], index: history.index }, image => image !== null);
+};
@@ -0,0 +1,131 @@
+import { AppConfig, Genre, ImageSourceId, Playlist, PlaylistItem } from "../types";
+
+/**
+ * Shape of AppConfig before playlists: one fixed genre, with an optional
+ * provider per genre and a shared manifest URL.
+ */
+export interface LegacyGenreConfig {
+  genre?: Genre;
+  sources?: Partial<Record<Genre, ImageSourceId>>;
+  manifestUrl?: string;
+}
+
+const createId = (prefix: string): string =>
+  `${prefix}-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`;
+
+const slugify = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+export const createPlaylistItem = (source: ImageSourceId = 'picsum', query: string = ''): PlaylistItem => ({
+  id: createId('item'),
+  source,
+  query,
+  weight: 1,
+});
+
+export const createPlaylist = (name: string, items: PlaylistItem[] = []): Playlist => ({
+  id: createId('playlist'),
+  name,
+  items,
+  ordering: 'shuffle',
+});
+
+/**
+ * One stock playlist per built-in genre, with stable ids so they survive migrations.
+ */
+export const createDefaultPlaylists = (): Playlist[] =>
+  Object.values(Genre).map(genre => ({
+    id: `genre-${slugify(genre)}`,
+    name: genre,
+    items: [{ id: `genre-${slugify(genre)}-stock`, source: 'picsum', query: genre, weight: 1 }],
+    ordering: 'shuffle',
+  }));
+
+export const getGenrePlaylistId = (genre: Genre): string => `genre-${slugify(genre)}`;
+
+/**
+ * Converts a genre based config into playlists: every genre becomes a playlist
+ * with its configured provider, and the old genre becomes the active playlist.
+ */
+export const migrateGenreConfig = (legacy: LegacyGenreConfig): Pick<AppConfig, 'playlistId' | 'playlists'> => {
+  const playlists = createDefaultPlaylists().map((playlist, index) => {
+    const genre = Object.values(Genre)[index];
+    const source = legacy.sources?.[genre] ?? 'picsum';
+    const query = source === 'manifest' ? legacy.manifestUrl ?? '' : genre;
+    return { ...playlist, items: [{ ...playlist.items[0], source, query }] };
+  });
+
+  const playlistId = legacy.genre && Object.values(Genre).includes(legacy.genre)
+    ? getGenrePlaylistId(legacy.genre)
+    : playlists[0].id;
+
+  return { playlistId, playlists };
+};
+
+export const getActivePlaylist = (config: AppConfig): Playlist =>
+  config.playlists.find(playlist => playlist.id === config.playlistId) ?? config.playlists[0];
+
+// --- SEQUENCING ---
+
+interface SequenceState {
+  cursor: number; // items handed out so far
+  deck: number[]; // remaining item indices for shuffle ordering
+}
+
+// Playback position per playlist, kept for the page session
+const sequenceStates = new Map<string, SequenceState>();
+
+const shuffle = (values: number[]): number[] => {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const pickWeighted = (items: PlaylistItem[]): number => {
+  const total = items.reduce((sum, item) => sum + Math.max(0, item.weight), 0);
+  if (total <= 0) return Math.floor(Math.random() * items.length);
+
+  let remaining = Math.random() * total;
+  for (let i = 0; i < items.length; i++) {
+    remaining -= Math.max(0, items[i].weight);
+    if (remaining < 0) return i;
+  }
+  return items.length - 1;
+};
+
+/**
+ * Picks the next item of a playlist according to its ordering mode.
+ * Sequential playback also returns a `sequence` so providers step through
+ * the images of an item in order instead of picking randomly.
+ */
+export const nextPlaylistItem = (playlist: Playlist): { item: PlaylistItem; sequence?: number } | null => {
+  const { items } = playlist;
+  if (items.length === 0) return null;
+
+  const state = sequenceStates.get(playlist.id) ?? { cursor: 0, deck: [] };
+  sequenceStates.set(playlist.id, state);
+
+  switch (playlist.ordering) {
+    case 'sequential': {
+      const cursor = state.cursor++;
+      return { item: items[cursor % items.length], sequence: Math.floor(cursor / items.length) };
+    }
+    case 'weighted':
+      return { item: items[pickWeighted(items)] };
+    case 'shuffle':
+    default: {
+      // Deal every item once before reshuffling; drop indices of removed items
+      state.deck = state.deck.filter(index => index < items.length);
+      if (state.deck.length === 0) {
+        state.deck = shuffle(items.map((_, index) => index));
+      }
+      return { item: items[state.deck.pop() as number] };
+    }
+  }
+};
+
+export const resetPlaylistSequence = (playlistId: string) => {
+  sequenceStates.delete(playlistId);
+};
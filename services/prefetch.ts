@@ -0,0 +1,92 @@
+import { ArtImage, ImageAnalysis, PlaylistItem } from "../types";
+import { GenerateOptions, generateArtImage } from "./geminiService";
+import { cacheAnalysis, cacheImage, getCachedAnalysis } from "./imageCache";
+import { analyzeImage } from "./imageAnalysis";
+import { getImage, updateImageAnalysis } from "./libraryStore";
+
+const DECODE_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 1000;
+
+// An image that is downloaded and decoded, so showing it costs nothing
+export interface ReadyImage {
+  image: ArtImage; // with its natural size and analysis filled in
+  element: HTMLImageElement; // holds on to the decoded bitmap
+  passedOver?: number; // times a later image was shown first, see services/sequencing.ts
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Loads and decodes an image, retrying after 1s, 2s, ... when it fails to load.
+ * Resolves to null once every attempt failed.
+ */
+const decodeImage = async (url: string): Promise<HTMLImageElement | null> => {
+  for (let attempt = 0; attempt < DECODE_ATTEMPTS; attempt++) {
+    if (attempt > 0) await wait(BACKOFF_BASE_MS * 2 ** (attempt - 1));
+
+    const element = new Image();
+    element.src = url;
+    try {
+      await element.decode();
+      return element;
+    } catch {
+      // Broken or unreachable; the next attempt may get through
+    }
+  }
+  return null;
+};
+
+// Analysis is kept with the library record, or next to the cached copy of a remote image
+const findStoredAnalysis = async (image: ArtImage): Promise<ImageAnalysis | null> =>
+  image.source === 'local' ? (await getImage(image.id))?.analysis ?? null : getCachedAnalysis(image.remoteUrl ?? image.url);
+
+const storeAnalysis = (image: ArtImage, analysis: ImageAnalysis): Promise<void> =>
+  image.source === 'local' ? updateImageAnalysis(image.id, analysis) : cacheAnalysis(image.remoteUrl ?? image.url, analysis);
+
+/**
+ * Caches and decodes an image whose address is already known, and analyzes its
+ * colors unless that was done before. The cached copy is same-origin, so its pixels
+ * can be read even when the original server doesn't allow it.
+ */
+export const prepareImage = async (image: ArtImage): Promise<ReadyImage | null> => {
+  const url = await cacheImage(image.url);
+  const element = await decodeImage(url);
+  if (!element) return null;
+
+  let analysis = image.analysis ?? await findStoredAnalysis(image).catch(() => null);
+  if (!analysis) {
+    analysis = analyzeImage(element);
+    if (analysis) storeAnalysis(image, analysis).catch(error => console.warn('Could not store image analysis:', error));
+  }
+
+  return {
+    image: {
+      ...image,
+      url,
+      ...(url !== image.url && { remoteUrl: image.url }),
+      width: element.naturalWidth,
+      height: element.naturalHeight,
+      analysis: analysis ?? undefined,
+    },
+    element,
+  };
+};
+
+/**
+ * Fetches an image for a playlist item, caches it and decodes it. An image that keeps
+ * failing to load sends the request down the rest of its provider chain.
+ */
+export const loadReadyImage = async (item: PlaylistItem, theme: string, options: GenerateOptions = {}): Promise<ReadyImage | null> => {
+  const exclude = [...(options.exclude ?? [])];
+
+  while (true) {
+    const image = await generateArtImage(item, theme, { ...options, exclude });
+    if (!image) return null;
+
+    const ready = await prepareImage(image);
+    if (ready) return ready;
+
+    console.warn(`Image from ${image.source} failed to load:`, image.url);
+    exclude.push(image.source);
+  }
+};
@@ -0,0 +1,233 @@
+import { AppConfig, FrameMaterial, GestureAction, GestureType, GestureZone, InputAction, Profile, WidgetFont, WidgetPosition, WidgetType } from "../types";
+import { STATE_VERSION, migrateConfig } from "./persistence";
+import { SETTING_RANGES, getSettingRange, isEnumValue, isInRange } from "./settingRanges";
+
+/*
+ * A profile is everything needed to set up another frame the same way: playlists,
+ * frames, filters, schedule, bindings and the remaining settings. The pairing code,
+ * the frame's role and place in a sync group, how its display is mounted, what its
+ * panel needs against burn-in and its kiosk lock stay with the device.
+ */
+
+const EXPORT_FORMAT = 'lumina-profile';
+
+// The imported calendar file never leaves the device, so its name stays too
+const DEVICE_FIELDS: (keyof AppConfig)[] = [
+  'remoteCode', 'syncRole', 'syncPosition', 'orientation', 'calendarFileName',
+  'pixelShift', 'maxDwell', 'blackRefreshInterval', 'blackRefreshDuration', 'luminanceCap',
+  'kioskEnabled', 'kioskPin', 'kioskAllowed', 'kioskRevertAfter',
+];
+
+export const toProfileSettings = (config: AppConfig): Partial<AppConfig> => {
+  const settings: Partial<AppConfig> = { ...config };
+  DEVICE_FIELDS.forEach(field => delete settings[field]);
+  return settings;
+};
+
+export const createProfile = (name: string, config: AppConfig): Profile => ({
+  id: `profile-${Date.now().toString(36)}`,
+  name,
+  settings: toProfileSettings(config),
+  savedAt: Date.now(),
+});
+
+// Fields the profile doesn't have keep their current value
+export const applyProfile = (config: AppConfig, profile: Profile): AppConfig => ({
+  ...config,
+  ...toProfileSettings({ ...config, ...profile.settings }),
+});
+
+/**
+ * Adds a profile, replacing one with the same name (ignoring case) in its place.
+ */
+export const upsertProfile = (profiles: Profile[], profile: Profile): Profile[] => {
+  const index = profiles.findIndex(existing => existing.name.toLowerCase() === profile.name.toLowerCase());
+  if (index === -1) return [...profiles, profile];
+  return profiles.map((existing, i) => (i === index ? { ...profile, id: existing.id } : existing));
+};
+
+export const findProfile = (profiles: Profile[], name: string): Profile | undefined =>
+  profiles.find(profile => profile.name.toLowerCase() === name.trim().toLowerCase());
+
+// --- EXPORT & IMPORT ---
+
+// Written with the state version, so imports run through the same migrations as stored state
+export const exportProfile = (profile: Profile): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: STATE_VERSION, name: profile.name, savedAt: profile.savedAt, settings: profile.settings }, null, 2);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// --- NESTED SETTINGS ---
+// Checks for the settings made of lists and maps, which other code reads without guarding
+
+type Check = (value: unknown) => boolean;
+
+const isString: Check = value => typeof value === 'string';
+const isBoolean: Check = value => typeof value === 'boolean';
+const isNumberIn = (min: number, max: number): Check => value => isInRange(value, { min, max });
+const isOneOf = (values: readonly string[] | Record<string, string>): Check => value =>
+  (Array.isArray(values) ? values : Object.values(values)).includes(value as string);
+const optional = (check: Check): Check => value => value === undefined || check(value);
+const isListOf = (check: Check): Check => value => Array.isArray(value) && value.every(check);
+
+// A map whose keys are values of `keys`, each entry passing `check`
+const isMapOf = (keys: Record<string, string>, check: Check): Check => value =>
+  isObject(value) && Object.entries(value).every(([key, entry]) => isOneOf(keys)(key) && check(entry));
+
+// An object with every field of `shape`; fields it doesn't list are left alone
+const hasShape = (shape: Record<string, Check>): Check => value =>
+  isObject(value) && Object.entries(shape).every(([key, check]) => check(value[key]));
+
+const isPlaylistItem = hasShape({
+  id: isString,
+  source: isOneOf(['picsum', 'local', 'manifest', 'gemini', 'url']),
+  query: isString,
+  weight: isNumberIn(0, Infinity),
+});
+
+const isPlaylist = hasShape({
+  id: isString,
+  name: isString,
+  items: isListOf(isPlaylistItem),
+  ordering: isOneOf(['sequential', 'shuffle', 'weighted']),
+  interval: optional(isNumberIn(SETTING_RANGES.interval.min, SETTING_RANGES.interval.max)),
+  favoritesOnly: optional(isBoolean),
+});
+
+const isFrame = hasShape({
+  id: isString,
+  name: isString,
+  material: isOneOf(FrameMaterial),
+  color: isString,
+  width: isNumberIn(0, 120),
+  matteColor: isString,
+  matteWidth: isNumberIn(0, 200),
+  bevel: isNumberIn(0, 12),
+  shadowDepth: isNumberIn(0, 1),
+});
+
+const isFilter = hasShape({
+  id: isString,
+  name: isString,
+  adjustments: hasShape({
+    exposure: isNumberIn(-1, 1),
+    contrast: isNumberIn(-1, 1),
+    saturation: isNumberIn(-1, 1),
+    temperature: isNumberIn(-1, 1),
+    tint: isNumberIn(-1, 1),
+    vignette: isNumberIn(0, 1),
+    grain: isNumberIn(0, 1),
+  }),
+});
+
+const isTime: Check = value => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+const isScheduleRule = hasShape({
+  id: isString,
+  name: isString,
+  enabled: isBoolean,
+  start: isTime,
+  end: isTime,
+  days: isListOf(day => Number.isInteger(day) && isNumberIn(0, 6)(day)),
+  overrides: hasShape({
+    playlistId: optional(isString),
+    filterId: optional(isString),
+    brightness: optional(isNumberIn(SETTING_RANGES.brightness.min, SETTING_RANGES.brightness.max)),
+    isSlideshow: optional(isBoolean),
+    sleep: optional(isBoolean),
+  }),
+});
+
+const NESTED_CHECKS: Partial<Record<keyof AppConfig, Check>> = {
+  playlists: value => isListOf(isPlaylist)(value) && (value as unknown[]).length > 0,
+  customFrames: isListOf(isFrame),
+  customFilters: isListOf(isFilter),
+  schedule: isListOf(isScheduleRule),
+  keyBindings: isMapOf(InputAction, isListOf(isString)),
+  gestureBindings: isMapOf(GestureZone, isMapOf(GestureType, isOneOf([...Object.values(InputAction), ...Object.values(GestureAction)]))),
+  widgets: isMapOf(WidgetType, hasShape({
+    enabled: optional(isBoolean),
+    position: optional(isOneOf(WidgetPosition)),
+    opacity: optional(isNumberIn(0.2, 1)),
+    font: optional(isOneOf(WidgetFont)),
+  })),
+};
+
+/**
+ * Keeps the known settings of an imported profile, checked against the kind of value
+ * each one has in `reference` (any complete config), the range the settings UI allows
+ * and, for lists and maps, the shape of their entries. Throws naming every setting with
+ * a value that doesn't fit; settings this version doesn't know are skipped.
+ */
+const validateSettings = (settings: Record<string, unknown>, reference: AppConfig): Partial<AppConfig> => {
+  const valid: Record<string, unknown> = {};
+  const invalid: string[] = [];
+
+  Object.entries(settings).forEach(([key, value]) => {
+    const field = key as keyof AppConfig;
+    if (!(field in reference) || DEVICE_FIELDS.includes(field)) return;
+
+    const expected = reference[field];
+    const sameKind = Array.isArray(expected) ? Array.isArray(value) : typeof value === typeof expected && !Array.isArray(value) && value !== null;
+    const range = getSettingRange(field);
+    const check = NESTED_CHECKS[field];
+    if (range && !isInRange(value, range)) {
+      invalid.push(`${key} (${range.min} to ${range.max})`);
+    } else if (!sameKind || !isEnumValue(key, value) || (check && !check(value))) {
+      invalid.push(key);
+    } else {
+      valid[key] = value;
+    }
+  });
+
+  if (invalid.length > 0) throw new Error(`Invalid settings: ${invalid.join(', ')}`);
+
+  // The active playlist has to be one of the profile's own playlists
+  const playlists = (valid.playlists ?? reference.playlists) as AppConfig['playlists'];
+  if (valid.playlistId !== undefined && !playlists.some(playlist => playlist.id === valid.playlistId)) {
+    throw new Error('The active playlist is not part of the profile');
+  }
+  return valid as Partial<AppConfig>;
+};
+
+/**
+ * Reads an exported profile file. Throws with a readable message when it isn't one
+ * or its settings don't fit.
+ */
+export const parseProfile = (text: string, reference: AppConfig): Profile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  if (!isObject(data) || data.format !== EXPORT_FORMAT || !isObject(data.settings)) {
+    throw new Error('Not a settings profile');
+  }
+  // Hand-written profiles may leave the version out: they are written for this version
+  const version = data.version ?? STATE_VERSION;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Unknown profile version');
+  }
+  if (version > STATE_VERSION) {
+    throw new Error('Exported by a newer version');
+  }
+
+  const migrated = migrateConfig(data.settings, version);
+  return {
+    id: `profile-${Date.now().toString(36)}`,
+    name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Imported',
+    settings: validateSettings(isObject(migrated) ? migrated : {}, reference),
+    savedAt: typeof data.savedAt === 'number' ? data.savedAt : Date.now(),
+  };
+};
+
+/**
+ * Downloads a profile file, e.g. the one named by `?profile=` at startup.
+ */
+export const fetchProfile = async (url: string, reference: AppConfig): Promise<Profile> => {
+  const response = await fetch(url, { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`Profile not found (HTTP ${response.status})`);
+  return parseProfile(await response.text(), reference);
+};
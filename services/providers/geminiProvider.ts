@@ -0,0 +1,50 @@
+import { ImageProvider } from "../../types";
+
+const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+const GEMINI_ENDPOINT = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_IMAGE_MODEL}:generateContent`;
+
+const getApiKey = (): string | undefined => process.env.API_KEY || undefined;
+
+interface GeminiPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+}
+
+/**
+ * AI generated artwork via the Gemini image API. Only offered when an API key is configured.
+ */
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  fallback: 'picsum',
+  timeoutMs: 30000,
+  isAvailable: () => navigator.onLine && Boolean(getApiKey()),
+  fetchImage: async ({ theme, query, width, height }) => {
+    const apiKey = getApiKey();
+    if (!apiKey) return null;
+
+    const orientation = width >= height ? 'landscape' : 'portrait';
+    const prompt = `A gallery-quality ${orientation} artwork in the theme "${query || theme}". No text, no borders, no watermark.`;
+
+    const response = await fetch(`${GEMINI_ENDPOINT}?key=${encodeURIComponent(apiKey)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contents: [{ parts: [{ text: prompt }] }] }),
+    });
+    if (!response.ok) {
+      throw new Error(`Gemini request failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const parts: GeminiPart[] = data?.candidates?.[0]?.content?.parts ?? [];
+    const image = parts.find(part => part.inlineData)?.inlineData;
+    if (!image) return null;
+
+    return {
+      url: `data:${image.mimeType};base64,${image.data}`,
+      id: `gemini-${Date.now()}`,
+      source: 'gemini',
+      metadata: { title: query || theme, author: 'Gemini', capturedAt: new Date().toISOString() },
+    };
+  },
+};
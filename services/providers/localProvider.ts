@@ -0,0 +1,57 @@
+import { ImageProvider } from "../../types";
+import { getImage, listImageIds, listImageIdsByTag } from "../libraryStore";
+import { readImageMetadata } from "../metadata";
+import { pickCandidate } from "../ratings";
+
+// Object URLs stay alive so history entries keep working; released when an image is deleted
+const objectUrls = new Map<string, string>();
+
+/**
+ * Returns a stable object URL for a library image, or null if it no longer exists.
+ */
+export const getLibraryImageUrl = async (id: string): Promise<string | null> => {
+  const cached = objectUrls.get(id);
+  if (cached) return cached;
+
+  const record = await getImage(id);
+  if (!record) return null;
+
+  const url = URL.createObjectURL(record.blob);
+  objectUrls.set(id, url);
+  return url;
+};
+
+export const revokeLibraryImageUrl = (id: string) => {
+  const url = objectUrls.get(id);
+  if (url) {
+    URL.revokeObjectURL(url);
+    objectUrls.delete(id);
+  }
+};
+
+/**
+ * Images from the on-device library in IndexedDB. Works without any network.
+ * Plays the album or genre tag given as query (or the playlist name as a fallback);
+ * plays the whole library when nothing carries that tag.
+ */
+export const localProvider: ImageProvider = {
+  id: 'local',
+  label: 'Library',
+  fallback: 'picsum',
+  timeoutMs: 5000,
+  isAvailable: () => 'indexedDB' in window,
+  fetchImage: async ({ theme, query, sequence, weightOf }) => {
+    const tagged = await listImageIdsByTag(query || theme);
+    const ids = tagged.length > 0 ? tagged : await listImageIds();
+
+    const id = pickCandidate(ids, id => id, weightOf, sequence);
+    if (id === null) return null;
+    const record = await getImage(id);
+    const url = record ? await getLibraryImageUrl(id) : null;
+    if (!record || !url) return null;
+
+    // Images imported before metadata was stored get it read now
+    const metadata = record.metadata ?? await readImageMetadata(record.blob, record.name);
+    return { url, id, source: 'local', metadata, analysis: record.analysis };
+  },
+};
@@ -0,0 +1,79 @@
+import { ImageMetadata, ImageProvider } from "../../types";
+import { pickCandidate } from "../ratings";
+
+interface ManifestEntry {
+  url: string;
+  genre?: string;
+  metadata?: ImageMetadata;
+}
+
+const readString = (value: unknown): string | undefined => (typeof value === 'string' && value ? value : undefined);
+
+const MANIFEST_TTL_MS = 5 * 60 * 1000;
+
+// Last fetched manifest, reused until it expires or the URL changes
+let cache: { url: string; entries: ManifestEntry[]; fetchedAt: number } | null = null;
+
+/**
+ * Accepts either a plain array or `{ images: [...] }`, with entries given as
+ * URL strings or `{ url, genre, title, author, sourceUrl, date }` objects.
+ */
+const parseManifest = (data: unknown): ManifestEntry[] => {
+  const list = Array.isArray(data) ? data : (data as { images?: unknown })?.images;
+  if (!Array.isArray(list)) {
+    throw new Error("Manifest must be an array or contain an 'images' array");
+  }
+
+  return list.flatMap((item): ManifestEntry[] => {
+    if (typeof item === 'string') return [{ url: item }];
+    if (item && typeof item.url === 'string') {
+      const metadata: ImageMetadata = {
+        title: readString(item.title),
+        author: readString(item.author),
+        sourceUrl: readString(item.sourceUrl),
+        capturedAt: readString(item.date),
+      };
+      return [{ url: item.url, genre: item.genre, metadata }];
+    }
+    return [];
+  });
+};
+
+const loadManifest = async (url: string): Promise<ManifestEntry[]> => {
+  if (cache && cache.url === url && Date.now() - cache.fetchedAt < MANIFEST_TTL_MS) {
+    return cache.entries;
+  }
+
+  const response = await fetch(url, { cache: 'no-cache' });
+  if (!response.ok) {
+    throw new Error(`Manifest request failed: ${response.status}`);
+  }
+
+  const entries = parseManifest(await response.json());
+  cache = { url, entries, fetchedAt: Date.now() };
+  return entries;
+};
+
+/**
+ * Images listed in a static JSON manifest whose URL is the playlist item query.
+ * Entries whose genre matches the playlist name are preferred; untagged entries
+ * are used for every playlist.
+ */
+export const manifestProvider: ImageProvider = {
+  id: 'manifest',
+  label: 'Manifest',
+  fallback: 'picsum',
+  timeoutMs: 8000,
+  isAvailable: () => navigator.onLine,
+  fetchImage: async ({ theme, query, sequence, weightOf }) => {
+    if (!query) return null;
+
+    const entries = await loadManifest(query);
+    const tagged = entries.filter(entry => entry.genre === theme);
+    const pool = tagged.length > 0 ? tagged : entries.filter(entry => !entry.genre);
+
+    const entry = pickCandidate(pool, entry => entry.url, weightOf, sequence);
+    if (!entry) return null;
+    return { url: entry.url, id: entry.url, source: 'manifest', metadata: entry.metadata };
+  },
+};
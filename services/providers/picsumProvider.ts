@@ -0,0 +1,42 @@
+import { ImageMetadata, ImageProvider } from "../../types";
+
+interface PicsumInfo {
+  author?: string;
+  url?: string; // the photo's Unsplash page
+}
+
+// Photographer and original page; the image itself works without them
+const fetchPicsumMetadata = async (seed: string): Promise<ImageMetadata | undefined> => {
+  try {
+    const response = await fetch(`https://picsum.photos/seed/${seed}/info`);
+    if (!response.ok) return undefined;
+    const info: PicsumInfo = await response.json();
+    return { author: info.author, sourceUrl: info.url };
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Stock photos from Picsum. Needs a network connection and falls back to the
+ * on-device library when its images can't be loaded.
+ */
+export const picsumProvider: ImageProvider = {
+  id: 'picsum',
+  label: 'Stock',
+  fallback: 'local',
+  timeoutMs: 5000,
+  isAvailable: () => navigator.onLine,
+  fetchImage: async ({ theme, query, width, height, sequence }) => {
+    // Sequential playback walks numbered seeds; otherwise a random seed keeps variety
+    const counter = sequence ?? Math.floor(Math.random() * 100000);
+    const seed = `${(query || theme).replace(/[^a-zA-Z0-9]+/g, '-')}-${counter}`;
+
+    return {
+      url: `https://picsum.photos/seed/${seed}/${width}/${height}`,
+      id: seed,
+      source: 'picsum',
+      metadata: await fetchPicsumMetadata(seed),
+    };
+  },
+};
@@ -0,0 +1,17 @@
+import { ImageProvider } from "../../types";
+import { titleFromUrl } from "../metadata";
+
+/**
+ * A single image URL taken verbatim from the playlist item.
+ */
+export const urlProvider: ImageProvider = {
+  id: 'url',
+  label: 'URL',
+  fallback: 'picsum',
+  timeoutMs: 1000,
+  isAvailable: () => navigator.onLine,
+  fetchImage: async ({ query }) => {
+    if (!query) return null;
+    return { url: query, id: query, source: 'url', metadata: { title: titleFromUrl(query), sourceUrl: query } };
+  },
+};
@@ -0,0 +1,326 @@
+/*
+ * Minimal QR code encoder for the caption's source link: byte mode, error correction
+ * level M, versions 1-10 (up to 213 bytes, plenty for a URL). Follows ISO/IEC 18004.
+ */
+
+// Per version 1-10 at level M: EC codewords per block and [blocks, data codewords] groups
+const VERSIONS: { ecPerBlock: number; groups: [number, number][] }[] = [
+  { ecPerBlock: 10, groups: [[1, 16]] },
+  { ecPerBlock: 16, groups: [[1, 28]] },
+  { ecPerBlock: 26, groups: [[1, 44]] },
+  { ecPerBlock: 18, groups: [[2, 32]] },
+  { ecPerBlock: 24, groups: [[2, 43]] },
+  { ecPerBlock: 16, groups: [[4, 27]] },
+  { ecPerBlock: 18, groups: [[4, 31]] },
+  { ecPerBlock: 22, groups: [[2, 38], [2, 39]] },
+  { ecPerBlock: 22, groups: [[3, 36], [2, 37]] },
+  { ecPerBlock: 26, groups: [[4, 43], [1, 44]] },
+];
+
+// Level M is 00 in the format information
+const EC_LEVEL_BITS = 0;
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// --- Reed-Solomon over GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1 ---
+const gfMultiply = (a: number, b: number): number => {
+  let result = 0;
+  for (let bit = 7; bit >= 0; bit--) {
+    result = (result << 1) ^ ((result >>> 7) * 0x11d);
+    if ((b >>> bit) & 1) result ^= a;
+  }
+  return result & 0xff;
+};
+
+const createGenerator = (degree: number): number[] => {
+  // Coefficients from highest to lowest power, leading 1 omitted
+  const generator = new Array<number>(degree).fill(0);
+  generator[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      generator[j] = gfMultiply(generator[j], root) ^ (generator[j + 1] ?? 0);
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return generator;
+};
+
+const computeErrorCorrection = (data: number[], degree: number): number[] => {
+  const generator = createGenerator(degree);
+  const remainder = new Array<number>(degree).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ (remainder.shift() as number);
+    remainder.push(0);
+    generator.forEach((coefficient, i) => {
+      remainder[i] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return remainder;
+};
+
+// --- Codewords ---
+const getDataCapacity = (version: number): number =>
+  VERSIONS[version - 1].groups.reduce((sum, [blocks, size]) => sum + blocks * size, 0);
+
+const encodeData = (bytes: Uint8Array, version: number): number[] => {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  push(0b0100, 4); // byte mode
+  push(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => push(byte, 8));
+
+  const capacityBits = getDataCapacity(version) * 8;
+  push(0, Math.min(4, capacityBits - bits.length)); // terminator
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) codewords.push(pad);
+  return codewords;
+};
+
+// Splits into blocks, adds error correction and interleaves them as the symbol expects
+const addErrorCorrection = (data: number[], version: number): number[] => {
+  const { ecPerBlock, groups } = VERSIONS[version - 1];
+  const blocks: number[][] = [];
+  let offset = 0;
+  groups.forEach(([count, size]) => {
+    for (let i = 0; i < count; i++) {
+      blocks.push(data.slice(offset, offset + size));
+      offset += size;
+    }
+  });
+  const ec = blocks.map(block => computeErrorCorrection(block, ecPerBlock));
+
+  const result: number[] = [];
+  const longest = Math.max(...blocks.map(block => block.length));
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach(block => {
+      if (i < block.length) result.push(block[i]);
+    });
+  }
+  for (let i = 0; i < ecPerBlock; i++) ec.forEach(block => result.push(block[i]));
+  return result;
+};
+
+// --- Symbol ---
+const getAlignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const size = version * 4 + 17;
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = size - 7; positions.length < count; position -= step) positions.splice(1, 0, position);
+  return positions;
+};
+
+// BCH code for 15 format bits
+const getFormatBits = (mask: number): number => {
+  const data = (EC_LEVEL_BITS << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  return ((data << 10) | remainder) ^ 0x5412;
+};
+
+// BCH code for the 18 version bits of version 7 and up
+const getVersionBits = (version: number): number => {
+  let remainder = version;
+  for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  return (version << 12) | remainder;
+};
+
+interface Grid {
+  size: number;
+  modules: boolean[][]; // [y][x], true = dark
+  reserved: boolean[][]; // function patterns, never masked or overwritten by data
+}
+
+const createGrid = (version: number): Grid => {
+  const size = version * 4 + 17;
+  return {
+    size,
+    modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    reserved: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+  };
+};
+
+const setFunctionModule = (grid: Grid, x: number, y: number, dark: boolean) => {
+  grid.modules[y][x] = dark;
+  grid.reserved[y][x] = true;
+};
+
+const drawFormatBits = (grid: Grid, mask: number) => {
+  const { size } = grid;
+  const bits = getFormatBits(mask);
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+  for (let i = 0; i <= 5; i++) setFunctionModule(grid, 8, i, bit(i));
+  setFunctionModule(grid, 8, 7, bit(6));
+  setFunctionModule(grid, 8, 8, bit(7));
+  setFunctionModule(grid, 7, 8, bit(8));
+  for (let i = 9; i < 15; i++) setFunctionModule(grid, 14 - i, 8, bit(i));
+
+  for (let i = 0; i < 8; i++) setFunctionModule(grid, size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) setFunctionModule(grid, 8, size - 15 + i, bit(i));
+  setFunctionModule(grid, 8, size - 8, true); // always dark
+};
+
+const drawFunctionPatterns = (grid: Grid, version: number) => {
+  const { size } = grid;
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(grid, 6, i, i % 2 === 0);
+    setFunctionModule(grid, i, 6, i % 2 === 0);
+  }
+
+  // Finders with their light separators
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunctionModule(grid, x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+
+  // Alignment patterns, except where they would overlap a finder
+  const positions = getAlignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => positions.forEach((cy, j) => {
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) setFunctionModule(grid, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+
+  // Format areas are reserved now and filled in once the mask is known
+  drawFormatBits(grid, 0);
+
+  if (version >= 7) {
+    const bits = getVersionBits(version);
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunctionModule(grid, a, b, dark);
+      setFunctionModule(grid, b, a, dark);
+    }
+  }
+};
+
+// Two-column zigzag from the bottom right, skipping the vertical timing pattern
+const drawCodewords = (grid: Grid, codewords: number[]) => {
+  const { size } = grid;
+  let index = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let step = 0; step < size; step++) {
+      const y = upward ? size - 1 - step : step;
+      for (let column = 0; column < 2; column++) {
+        const x = right - column;
+        if (grid.reserved[y][x] || index >= codewords.length * 8) continue;
+        grid.modules[y][x] = ((codewords[index >>> 3] >>> (7 - (index & 7))) & 1) === 1;
+        index++;
+      }
+    }
+  }
+};
+
+const applyMask = (grid: Grid, mask: number) => {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.reserved[y][x] && MASKS[mask](x, y)) grid.modules[y][x] = !grid.modules[y][x];
+    }
+  }
+};
+
+const FINDER_LIKE = [true, false, true, true, true, false, true];
+
+// Penalty rules from the standard; the mask with the lowest score is used
+const getPenalty = ({ size, modules }: Grid): number => {
+  let penalty = 0;
+
+  const scanLine = (line: boolean[]) => {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+        continue;
+      }
+      if (run >= 5) penalty += run - 2;
+      run = 1;
+    }
+    // 1:1:3:1:1 with four light modules on either side
+    for (let i = 0; i + 7 <= size; i++) {
+      if (!FINDER_LIKE.every((dark, k) => line[i + k] === dark)) continue;
+      const lightBefore = i >= 4 && line.slice(i - 4, i).every(dark => !dark);
+      const lightAfter = i + 11 <= size && line.slice(i + 7, i + 11).every(dark => !dark);
+      if (lightBefore || lightAfter) penalty += 40;
+    }
+  };
+
+  for (let i = 0; i < size; i++) {
+    scanLine(modules[i]);
+    scanLine(modules.map(row => row[i]));
+  }
+
+  for (let y = 0; y + 1 < size; y++) {
+    for (let x = 0; x + 1 < size; x++) {
+      const dark = modules[y][x];
+      if (modules[y][x + 1] === dark && modules[y + 1][x] === dark && modules[y + 1][x + 1] === dark) penalty += 3;
+    }
+  }
+
+  const darkCount = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(darkCount * 20 - total * 10) / total) - 1) * 10;
+  return penalty;
+};
+
+/**
+ * Encodes `text` as UTF-8 into the smallest QR code that fits. Returns rows of modules
+ * (true = dark) without the quiet zone, or null when the text is too long.
+ */
+export const encodeQrCode = (text: string): boolean[][] | null => {
+  const bytes = new TextEncoder().encode(text);
+  const version = VERSIONS.findIndex((_, i) => {
+    const headerBits = 4 + (i + 1 < 10 ? 8 : 16);
+    return headerBits + bytes.length * 8 <= getDataCapacity(i + 1) * 8;
+  }) + 1;
+  if (version === 0) return null;
+
+  const codewords = addErrorCorrection(encodeData(bytes, version), version);
+
+  let best: Grid | null = null;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const grid = createGrid(version);
+    drawFunctionPatterns(grid, version);
+    drawCodewords(grid, codewords);
+    applyMask(grid, mask);
+    drawFormatBits(grid, mask);
+    const penalty = getPenalty(grid);
+    if (penalty < bestPenalty) {
+      bestPenalty = penalty;
+      best = grid;
+    }
+  }
+  return best?.modules ?? null;
+};
@@ -0,0 +1,167 @@
+import { ArtImage, Playlist, RatedImage, Rating } from "../types";
+import { getImageKey } from "./fitting";
+
+// Ratings keyed by getImageKey
+export type Ratings = Record<string, RatedImage>;
+
+// Relative chance of an image in providers that pick from a known set
+const RATING_WEIGHTS: Record<Rating, number> = {
+  [Rating.Like]: 3,
+  [Rating.Dislike]: 0.25,
+  [Rating.Ban]: 0,
+};
+
+// Share of images in a playlist that are liked images coming back
+export const FAVORITE_REPLAY_CHANCE = 0.1;
+
+const EXPORT_FORMAT = 'lumina-ratings';
+const EXPORT_VERSION = 1;
+
+export const getRating = (ratings: Ratings, image: Pick<ArtImage, 'source' | 'id'>): Rating | null =>
+  ratings[getImageKey(image)]?.rating ?? null;
+
+export const getRatingWeight = (ratings: Ratings, key: string): number => {
+  const rating = ratings[key]?.rating;
+  return rating ? RATING_WEIGHTS[rating] : 1;
+};
+
+export const isBanned = (ratings: Ratings, image: Pick<ArtImage, 'source' | 'id'>): boolean =>
+  getRating(ratings, image) === Rating.Ban;
+
+/**
+ * Sets or, with null, clears the rating of an image.
+ */
+export const rateImage = (ratings: Ratings, image: ArtImage, rating: Rating | null, playlistId?: string): Ratings => {
+  const key = getImageKey(image);
+  const { [key]: _previous, ...rest } = ratings;
+  return rating ? { ...rest, [key]: { image, rating, ratedAt: Date.now(), playlistId } } : rest;
+};
+
+// Drops every rating of one kind, e.g. to give banned images another chance
+export const clearRatings = (ratings: Ratings, rating: Rating): Ratings => {
+  const kept: Ratings = {};
+  Object.entries(ratings).forEach(([key, entry]) => {
+    if (entry.rating !== rating) kept[key] = entry;
+  });
+  return kept;
+};
+
+// Liked images, oldest first so sequential playback is stable as new ones are added
+export const getFavorites = (ratings: Ratings): ArtImage[] =>
+  Object.values(ratings)
+    .filter(entry => entry.rating === Rating.Like)
+    .sort((a, b) => a.ratedAt - b.ratedAt)
+    .map(entry => entry.image);
+
+export const countRatings = (ratings: Ratings): Record<Rating, number> => {
+  const counts = { [Rating.Like]: 0, [Rating.Dislike]: 0, [Rating.Ban]: 0 };
+  Object.values(ratings).forEach(entry => counts[entry.rating]++);
+  return counts;
+};
+
+/**
+ * Picks from a provider's candidates by rating weight. Sequential playback takes the
+ * candidate at `sequence`, or the next one that isn't banned. Null when all are banned.
+ */
+export const pickCandidate = <T,>(candidates: T[], idOf: (candidate: T) => string, weightOf: ((id: string) => number) | undefined, sequence?: number): T | null => {
+  if (candidates.length === 0) return null;
+  const weights = candidates.map(candidate => (weightOf ? Math.max(0, weightOf(idOf(candidate))) : 1));
+
+  if (sequence !== undefined) {
+    for (let step = 0; step < candidates.length; step++) {
+      const index = (sequence + step) % candidates.length;
+      if (weights[index] > 0) return candidates[index];
+    }
+    return null;
+  }
+
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) return null;
+  let remaining = Math.random() * total;
+  let last: T | null = null;
+  for (let i = 0; i < candidates.length; i++) {
+    if (weights[i] <= 0) continue;
+    last = candidates[i];
+    remaining -= weights[i];
+    if (remaining < 0) break;
+  }
+  return last;
+};
+
+// Position in favorites-only playlists, kept for the page session
+const favoriteCursors = new Map<string, number>();
+
+/**
+ * Next image of a favorites-only playlist: in order of liking for sequential
+ * playback, otherwise at random.
+ */
+export const nextFavorite = (ratings: Ratings, playlist: Playlist): ArtImage | null => {
+  const favorites = getFavorites(ratings);
+  if (favorites.length === 0) return null;
+  if (playlist.ordering !== 'sequential') return favorites[Math.floor(Math.random() * favorites.length)];
+
+  const cursor = favoriteCursors.get(playlist.id) ?? 0;
+  favoriteCursors.set(playlist.id, cursor + 1);
+  return favorites[cursor % favorites.length];
+};
+
+/**
+ * A liked image of this playlist to show again, or null most of the time.
+ */
+export const pickFavoriteReplay = (ratings: Ratings, playlistId: string, exclude: string | null): ArtImage | null => {
+  if (Math.random() >= FAVORITE_REPLAY_CHANCE) return null;
+  const liked = Object.entries(ratings)
+    .filter(([key, entry]) => entry.rating === Rating.Like && entry.playlistId === playlistId && key !== exclude)
+    .map(([, entry]) => entry.image);
+  return liked.length > 0 ? liked[Math.floor(Math.random() * liked.length)] : null;
+};
+
+// --- EXPORT & IMPORT ---
+
+export const exportRatings = (ratings: Ratings): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, ratings: Object.values(ratings) }, null, 2);
+
+const isRatedImage = (entry: unknown): entry is RatedImage => {
+  if (typeof entry !== 'object' || entry === null) return false;
+  const { rating, ratedAt, image } = entry as Record<string, unknown>;
+  if (typeof image !== 'object' || image === null) return false;
+  const { id, source, url } = image as Record<string, unknown>;
+  return Object.values(Rating).includes(rating as Rating) && typeof ratedAt === 'number'
+    && typeof id === 'string' && typeof source === 'string' && typeof url === 'string';
+};
+
+/**
+ * Reads an exported ratings file. Throws with a readable message when it isn't one;
+ * malformed entries are skipped.
+ */
+export const parseRatings = (text: string): Ratings => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  if (typeof data !== 'object' || data === null) throw new Error('Not a ratings export');
+  const fields = data as Record<string, unknown>;
+  if (fields.format !== EXPORT_FORMAT || !Array.isArray(fields.ratings)) {
+    throw new Error('Not a ratings export');
+  }
+  if (typeof fields.version === 'number' && fields.version > EXPORT_VERSION) {
+    throw new Error('Exported by a newer version');
+  }
+
+  const ratings: Ratings = {};
+  fields.ratings.filter(isRatedImage).forEach(entry => {
+    ratings[getImageKey(entry.image)] = entry;
+  });
+  return ratings;
+};
+
+// Where both have an image, the more recent rating wins
+export const mergeRatings = (current: Ratings, imported: Ratings): Ratings => {
+  const merged = { ...current };
+  Object.entries(imported).forEach(([key, entry]) => {
+    if (!merged[key] || merged[key].ratedAt < entry.ratedAt) merged[key] = entry;
+  });
+  return merged;
+};
@@ -0,0 +1,124 @@
+import { AppConfig } from "../types";
+import { openRelayChannel } from "./channel";
+import { clampToRange, getSettingRange, isEnumValue } from "./settingRanges";
+import { getFrames } from "./frames";
+import { getFilters } from "./adjustments";
+
+// Bumped on incompatible changes; messages with another version are ignored
+export const PROTOCOL_VERSION = 1;
+
+// Settings a remote may change with `updateConfig`; everything else is ignored
+export const REMOTE_CONFIG_KEYS = [
+  'playlistId',
+  'isSlideshow',
+  'interval',
+  'brightness',
+  'frameId',
+  'filterId',
+  'transitionEffect',
+  'fitMode',
+  'layout',
+] as const satisfies readonly (keyof AppConfig)[];
+
+export type RemoteConfigKey = typeof REMOTE_CONFIG_KEYS[number];
+
+// What the frame reports to remotes after every change
+export interface RemoteState {
+  config: Pick<AppConfig, RemoteConfigKey>;
+  playlists: { id: string; name: string }[];
+  imageUrl: string | null; // only web addresses; object URLs mean nothing on another device
+  sleeping: boolean;
+}
+
+// Remote → frame
+export type RemoteCommand =
+  | { type: 'hello' } // asks the frame for its state
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'selectPlaylist'; playlistId: string }
+  | { type: 'updateConfig'; patch: Partial<Pick<AppConfig, RemoteConfigKey>> };
+
+// Frame → remote
+export type FrameEvent = { type: 'state'; state: RemoteState };
+
+export type RemoteRole = 'frame' | 'remote';
+
+type Envelope = { v: typeof PROTOCOL_VERSION; code: string };
+
+export type RemoteMessage = (RemoteCommand | FrameEvent) & Envelope;
+
+// Each side only listens to what the other side sends
+type Incoming<R extends RemoteRole> = R extends 'frame' ? RemoteCommand : FrameEvent;
+
+const COMMAND_TYPES: RemoteCommand['type'][] = ['hello', 'next', 'previous', 'selectPlaylist', 'updateConfig'];
+
+export const createPairingCode = (): string => Math.floor(100000 + Math.random() * 900000).toString();
+
+export const isPairingCode = (code: string): boolean => /^\d{6}$/.test(code);
+
+// Ids a remote may pick from: whatever exists on this frame
+const getKnownIds = (config: AppConfig): Partial<Record<RemoteConfigKey, string[]>> => ({
+  playlistId: config.playlists.map(playlist => playlist.id),
+  frameId: getFrames(config).map(frame => frame.id),
+  filterId: getFilters(config).map(filter => filter.id),
+});
+
+/**
+ * Drops keys a remote may not change and values whose type doesn't match the current config,
+ * enum values that don't exist and ids of playlists, frames and filters this frame doesn't have.
+ * Numbers are clamped to what the settings UI allows; NaN and Infinity are dropped.
+ */
+export const sanitizeRemotePatch = (patch: unknown, config: AppConfig): Partial<AppConfig> => {
+  if (!patch || typeof patch !== 'object') return {};
+  const knownIds = getKnownIds(config);
+  const entries = Object.entries(patch)
+    .filter(([key, value]) =>
+      (REMOTE_CONFIG_KEYS as readonly string[]).includes(key) && typeof value === typeof config[key as RemoteConfigKey]
+      && isEnumValue(key, value) && (knownIds[key as RemoteConfigKey]?.includes(value) ?? true)
+    )
+    .map(([key, value]) => {
+      const range = getSettingRange(key);
+      return [key, range ? clampToRange(value, range) : value];
+    })
+    .filter(([, value]) => value !== null);
+  return Object.fromEntries(entries);
+};
+
+const parseMessage = <R extends RemoteRole>(message: unknown, code: string, role: R): Incoming<R> | null => {
+  if (!message || typeof message !== 'object') return null;
+
+  const { v, code: messageCode, type } = message as Partial<RemoteMessage>;
+  if (v !== PROTOCOL_VERSION || messageCode !== code || typeof type !== 'string') return null;
+
+  const fromRemote = (COMMAND_TYPES as string[]).includes(type);
+  if (role === 'frame' ? !fromRemote : type !== 'state') return null;
+  return message as Incoming<R>;
+};
+
+export interface RemoteChannel {
+  send: (message: RemoteCommand | FrameEvent) => void;
+  close: () => void;
+}
+
+/**
+ * Joins the pairing channel for `code` (room `remote-<code>`, see openRelayChannel).
+ */
+export const openRemoteChannel = <R extends RemoteRole>(
+  code: string,
+  relayUrl: string,
+  role: R,
+  onMessage: (message: Incoming<R>) => void
+): RemoteChannel => {
+  const channel = openRelayChannel(`remote-${code}`, relayUrl, data => {
+    const message = parseMessage(data, code, role);
+    if (message) onMessage(message);
+  });
+
+  return {
+    send: message => {
+      const envelope: RemoteMessage = { ...message, v: PROTOCOL_VERSION, code };
+      channel.send(envelope);
+    },
+    close: channel.close,
+  };
+};
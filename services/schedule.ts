@@ -0,0 +1,69 @@
+import { AppConfig, ScheduleOverrides, ScheduleRule } from "../types";
+
+export const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const createScheduleRule = (name: string): ScheduleRule => ({
+  id: `rule-${Date.now().toString(36)}`,
+  name,
+  enabled: true,
+  start: '22:00',
+  end: '06:00',
+  days: ALL_DAYS,
+  overrides: {},
+});
+
+/**
+ * Whether the rule's window covers `date`. For windows that wrap past midnight
+ * the part after midnight belongs to the weekday on which the window started.
+ */
+export const isRuleActive = (rule: ScheduleRule, date: Date): boolean => {
+  if (!rule.enabled) return false;
+
+  const now = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(rule.start);
+  const end = toMinutes(rule.end);
+  const today = date.getDay();
+  const yesterday = (today + 6) % 7;
+
+  if (start === end) return rule.days.includes(today); // all day
+  if (start < end) return now >= start && now < end && rule.days.includes(today);
+  if (now >= start) return rule.days.includes(today);
+  return now < end && rule.days.includes(yesterday);
+};
+
+export const getActiveRules = (rules: ScheduleRule[], date: Date): ScheduleRule[] =>
+  rules.filter(rule => isRuleActive(rule, date));
+
+/**
+ * Merges the overrides of the active rules; later rules win per field.
+ */
+export const mergeOverrides = (rules: ScheduleRule[]): ScheduleOverrides =>
+  rules.reduce<ScheduleOverrides>((merged, rule) => ({ ...merged, ...rule.overrides }), {});
+
+/**
+ * Applies schedule overrides to the config. Fields in `paused` were changed by
+ * hand while the current rules are active and keep the manual value.
+ */
+export const applyOverrides = (
+  config: AppConfig,
+  overrides: ScheduleOverrides,
+  paused: (keyof ScheduleOverrides)[] = []
+): AppConfig => {
+  const { sleep, ...settings } = overrides;
+  // Every override but `sleep` is a config field of the same name
+  const applied = Object.fromEntries(
+    Object.entries(settings).filter(([field, value]) => value !== undefined && !paused.includes(field as keyof ScheduleOverrides))
+  ) as Partial<AppConfig>;
+  const effective: AppConfig = { ...config, ...applied };
+
+  // A scheduled playlist that was deleted meanwhile is ignored
+  if (!effective.playlists.some(playlist => playlist.id === effective.playlistId)) {
+    effective.playlistId = config.playlistId;
+  }
+  return effective;
+};
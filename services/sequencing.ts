@@ -0,0 +1,61 @@
+import { ArtImage, SequenceMode } from "../types";
+import { ReadyImage } from "./prefetch";
+import { getDominantHue } from "./imageAnalysis";
+
+/*
+ * Sequencing picks which of the images loaded ahead comes next. With Random the
+ * queue plays in order; the other modes take the best match and leave the rest
+ * waiting, so they need a few images to choose from.
+ */
+
+// Images kept loaded ahead while a mode chooses between them
+export const SEQUENCE_CHOICES = 4;
+// An image passed over this often is shown next regardless, so none waits forever
+const MAX_PASSED_OVER = 3;
+// Score of an image without analysis: a poor match, but never excluded
+const UNKNOWN_SCORE = 1;
+
+/**
+ * Average luminance that suits the time of day: dark at night, brightest in the early
+ * afternoon.
+ */
+export const getTargetLuminance = (date: Date): number => {
+  const hour = date.getHours() + date.getMinutes() / 60;
+  // Daylight from 6:00 to 22:00, peaking at 14:00
+  const daylight = hour >= 6 && hour <= 22 ? Math.sin((Math.PI * (hour - 6)) / 16) : 0;
+  return 0.15 + 0.45 * daylight;
+};
+
+// Hue difference as a share of the widest possible (180°); a gray matches only grays
+const hueDistance = (a: number | null, b: number | null): number => {
+  if (a === null || b === null) return a === b ? 0 : 0.5;
+  const difference = Math.abs(a - b) % 360;
+  return Math.min(difference, 360 - difference) / 180;
+};
+
+// Lower is a better next image
+const scoreImage = (image: ArtImage, previous: ArtImage | null, mode: SequenceMode, date: Date): number => {
+  if (!image.analysis) return UNKNOWN_SCORE;
+  if (mode === SequenceMode.RoomLighting) return Math.abs(image.analysis.luminance - getTargetLuminance(date));
+  if (!previous?.analysis) return 0;
+  return hueDistance(getDominantHue(image.analysis), getDominantHue(previous.analysis));
+};
+
+/**
+ * Removes and returns the image to show after `previous`, like `shift()` for Random.
+ * Images ahead of the chosen one count as passed over.
+ */
+export const takeNextReady = (queue: ReadyImage[], previous: ArtImage | null, mode: SequenceMode, date: Date): ReadyImage | undefined => {
+  if (mode === SequenceMode.Random || queue.length <= 1 || (queue[0].passedOver ?? 0) >= MAX_PASSED_OVER) {
+    return queue.shift();
+  }
+
+  let best = 0;
+  const scores = queue.map(ready => scoreImage(ready.image, previous, mode, date));
+  scores.forEach((score, index) => {
+    if (score < scores[best]) best = index;
+  });
+
+  queue.slice(0, best).forEach(ready => { ready.passedOver = (ready.passedOver ?? 0) + 1; });
+  return queue.splice(best, 1)[0];
+};
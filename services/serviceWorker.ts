@@ -0,0 +1,36 @@
+// Frames run for days without a reload, so look for a new version now and then
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+let updateTimer: number | null = null;
+
+/**
+ * Registers public/sw.js in production builds. `onUpdate` is called once a new version
+ * is installed and waiting; the `apply` function it receives activates it and reloads.
+ */
+export const registerServiceWorker = async (onUpdate: (apply: () => void) => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.register('/sw.js');
+
+    const notify = (worker: ServiceWorker) => onUpdate(() => {
+      navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+
+    // Without a controller this is the first install, which needs no prompt
+    if (registration.waiting && navigator.serviceWorker.controller) notify(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) notify(worker);
+      });
+    });
+
+    if (updateTimer === null) {
+      updateTimer = window.setInterval(() => registration.update().catch(() => undefined), UPDATE_CHECK_MS);
+    }
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+  }
+};
@@ -0,0 +1,61 @@
+import { AppConfig, CaptionPosition, FitMode, LayoutMode, SequenceMode, SyncMode, TransitionEasing, TransitionEffect } from "../types";
+
+/*
+ * The values each numeric or enum setting can take in the settings UI. Settings that
+ * arrive from elsewhere, from remotes or imported profiles, are held to the same values:
+ * an interval of 0 would have the slideshow change images in a tight loop.
+ */
+
+// Settings whose string value has to be one of an enum's values
+export const SETTING_ENUMS: Partial<Record<keyof AppConfig, Record<string, string>>> = {
+  transitionEffect: TransitionEffect,
+  transitionEasing: TransitionEasing,
+  fitMode: FitMode,
+  layout: LayoutMode,
+  sequenceMode: SequenceMode,
+  syncMode: SyncMode,
+  captionPosition: CaptionPosition,
+};
+
+// Whether the value is one of the setting's enum values; settings that aren't enums always pass
+export const isEnumValue = (field: string, value: unknown): boolean => {
+  const values = SETTING_ENUMS[field as keyof AppConfig];
+  return !values || Object.values(values).includes(value as string);
+};
+
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+type NumericSetting = { [K in keyof AppConfig]: AppConfig[K] extends number ? K : never }[keyof AppConfig];
+
+export const SETTING_RANGES: Record<NumericSetting, NumberRange> = {
+  interval: { min: 5, max: 300 }, // seconds; playlists go up to 300
+  brightness: { min: 0.1, max: 2 },
+  historySize: { min: 10, max: 200 },
+  prefetchCount: { min: 0, max: 5 },
+  transitionDuration: { min: 200, max: 4000 },
+  syncPanels: { min: 2, max: 8 },
+  syncPosition: { min: 0, max: 7 },
+  captionHideAfter: { min: 0, max: 60 },
+  pixelShift: { min: 0, max: 8 },
+  maxDwell: { min: 0, max: 120 },
+  blackRefreshInterval: { min: 0, max: 24 },
+  blackRefreshDuration: { min: 5, max: 120 },
+  luminanceCap: { min: 0.2, max: 1 },
+  kioskRevertAfter: { min: 0, max: 60 },
+};
+
+export const getSettingRange = (field: string): NumberRange | undefined =>
+  (SETTING_RANGES as Partial<Record<string, NumberRange>>)[field];
+
+export const isInRange = (value: unknown, { min, max }: NumberRange): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+/**
+ * The number moved into the range, or null for NaN, Infinity and anything that isn't
+ * a number.
+ */
+export const clampToRange = (value: unknown, { min, max }: NumberRange): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : null;
@@ -0,0 +1,104 @@
+import { ArtImage, SyncMode } from "../types";
+import { openRelayChannel } from "./channel";
+import { ResolvedFit } from "./fitting";
+
+// Bumped on incompatible changes; messages with another version are ignored
+export const SYNC_PROTOCOL_VERSION = 1;
+
+// How far ahead the leader schedules a change, so followers have time to load the image
+export const SYNC_LEAD_MS = 3000;
+// The leader repeats the current change this often, which is how followers (re)join
+export const HEARTBEAT_MS = 5000;
+export const CLOCK_SYNC_MS = 15000;
+// Followers play on their own once the leader has been silent this long
+export const LEADER_TIMEOUT_MS = 30000;
+const CLOCK_SAMPLES = 8;
+
+// One coordinated image change
+export interface SyncShow {
+  session: string; // the leader's page load; a restarted leader counts from 1 again
+  seq: number;
+  mode: SyncMode;
+  panels: number;
+  images: ArtImage[]; // one per panel for sequence, otherwise just one
+  showAt: number; // leader clock, ms since epoch
+}
+
+export type SyncMessage =
+  | { type: 'show'; show: SyncShow } // leader → followers
+  | { type: 'join' } // follower asks for the current show right away
+  | { type: 'advance' } // follower asks the leader for the next image
+  | { type: 'ping'; from: string; sentAt: number } // follower clock probe
+  | { type: 'pong'; to: string; sentAt: number; leaderTime: number };
+
+type SyncEnvelope = SyncMessage & { v: typeof SYNC_PROTOCOL_VERSION; group: string };
+
+const MESSAGE_TYPES: SyncMessage['type'][] = ['show', 'join', 'advance', 'ping', 'pong'];
+
+export const createSessionId = (): string => Math.random().toString(36).slice(2, 10);
+
+// Group names double as relay room names
+export const normalizeGroupName = (name: string): string => name.trim().toLowerCase().replace(/[^\w-]+/g, '-').slice(0, 48);
+
+/**
+ * The form of an image that other frames can load: its web address. Library images and
+ * generated data URLs only exist on this device, so they can't be shared.
+ */
+export const toSharedImage = ({ remoteUrl, ...image }: ArtImage): ArtImage | null => {
+  const url = remoteUrl ?? image.url;
+  return /^https?:/.test(url) ? { ...image, url } : null;
+};
+
+export const getSyncedImage = (show: SyncShow, position: number): ArtImage | null =>
+  show.mode === SyncMode.Sequence
+    ? show.images[position % show.images.length] ?? null
+    : show.images[0] ?? null;
+
+/**
+ * Panorama images are requested `panels` screens wide; cover-fitting one at
+ * x = position / (panels - 1) shows exactly this frame's slice.
+ */
+export const getPanoramaFit = (position: number, panels: number): ResolvedFit => {
+  const x = panels > 1 ? (Math.min(position, panels - 1) / (panels - 1)) * 100 : 50;
+  return { mode: 'cover', position: `${x}% 50%` };
+};
+
+export interface ClockSample {
+  offset: number; // leader clock minus local clock
+  roundTrip: number;
+}
+
+export const addClockSample = (samples: ClockSample[], sentAt: number, leaderTime: number, receivedAt: number): ClockSample[] => [
+  ...samples,
+  { offset: leaderTime - (sentAt + receivedAt) / 2, roundTrip: receivedAt - sentAt },
+].slice(-CLOCK_SAMPLES);
+
+// The sample with the shortest round trip has the least network delay mixed into it
+export const estimateClockOffset = (samples: ClockSample[]): number =>
+  samples.length > 0 ? samples.reduce((best, sample) => (sample.roundTrip < best.roundTrip ? sample : best)).offset : 0;
+
+export interface SyncChannel {
+  send: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+/**
+ * Joins a sync group (room `sync-<group>`, see openRelayChannel).
+ */
+export const openSyncChannel = (group: string, relayUrl: string, onMessage: (message: SyncMessage) => void): SyncChannel => {
+  const channel = openRelayChannel(`sync-${group}`, relayUrl, data => {
+    if (!data || typeof data !== 'object') return;
+    const message = data as Partial<SyncEnvelope>;
+    if (message.v !== SYNC_PROTOCOL_VERSION || message.group !== group) return;
+    if (!MESSAGE_TYPES.includes(message.type as SyncMessage['type'])) return;
+    onMessage(message as SyncMessage);
+  });
+
+  return {
+    send: message => {
+      const envelope: SyncEnvelope = { ...message, v: SYNC_PROTOCOL_VERSION, group };
+      channel.send(envelope);
+    },
+    close: channel.close,
+  };
+};
@@ -0,0 +1,75 @@
+import type { CSSProperties } from 'react';
+import { TransitionEasing, TransitionEffect } from "../types";
+
+export type TransitionDirection = 1 | -1; // 1 = forward, -1 = back
+
+export interface TransitionStyles {
+  enterFrom: CSSProperties; // incoming image, first frame
+  enterTo: CSSProperties; // incoming image, settled
+  exitTo: CSSProperties; // outgoing image, applied on top of enterTo
+  transition: string;
+}
+
+interface TransitionOptions {
+  duration: number; // ms
+  easing: TransitionEasing;
+  displayDuration: number; // ms the image stays on screen, spans the Ken Burns motion
+  direction: TransitionDirection;
+  seed: number; // varies the Ken Burns pan between images
+}
+
+export const EASING_CURVES: Record<TransitionEasing, string> = {
+  [TransitionEasing.Linear]: 'linear',
+  [TransitionEasing.EaseInOut]: 'ease-in-out',
+  [TransitionEasing.EaseOut]: 'ease-out',
+  [TransitionEasing.Cinematic]: 'cubic-bezier(0.65, 0, 0.35, 1)',
+};
+
+// Ken Burns pans toward one of the corners, picked by seed
+const KEN_BURNS_PANS = [[-4, -3], [4, -3], [-4, 3], [4, 3]];
+
+/**
+ * CSS for the incoming and outgoing image layers of a transition.
+ * Layers animate with CSS transitions only, so no per-frame JavaScript runs.
+ */
+export const getTransitionStyles = (effect: TransitionEffect, options: TransitionOptions): TransitionStyles => {
+  const { duration, displayDuration, direction, seed } = options;
+  const curve = EASING_CURVES[options.easing];
+
+  switch (effect) {
+    case TransitionEffect.Crossfade:
+      // The outgoing image stays opaque underneath so the screen never dips to black
+      return {
+        enterFrom: { opacity: 0 },
+        enterTo: { opacity: 1 },
+        exitTo: {},
+        transition: `opacity ${duration}ms ${curve}`,
+      };
+    case TransitionEffect.KenBurns: {
+      const [x, y] = KEN_BURNS_PANS[seed % KEN_BURNS_PANS.length];
+      return {
+        enterFrom: { opacity: 0, transform: 'scale(1) translate(0, 0)' },
+        enterTo: { opacity: 1, transform: `scale(1.15) translate(${x}%, ${y}%)` },
+        exitTo: {},
+        transition: `opacity ${duration}ms ${curve}, transform ${displayDuration + duration}ms linear`,
+      };
+    }
+    case TransitionEffect.Slide:
+      return {
+        enterFrom: { transform: `translateX(${100 * direction}%)` },
+        enterTo: { transform: 'translateX(0)' },
+        exitTo: { transform: `translateX(${-100 * direction}%)` },
+        transition: `transform ${duration}ms ${curve}`,
+      };
+    case TransitionEffect.ZoomDissolve:
+      return {
+        enterFrom: { opacity: 0, transform: 'scale(1.08)' },
+        enterTo: { opacity: 1, transform: 'scale(1)' },
+        exitTo: { opacity: 0, transform: 'scale(0.96)' },
+        transition: `opacity ${duration}ms ${curve}, transform ${duration}ms ${curve}`,
+      };
+    case TransitionEffect.None:
+    default:
+      return { enterFrom: {}, enterTo: {}, exitTo: {}, transition: 'none' };
+  }
+};
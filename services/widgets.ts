@@ -0,0 +1,124 @@
+import type { CSSProperties } from 'react';
+import { AppConfig, WidgetFont, WidgetPosition, WidgetSettings, WidgetType } from "../types";
+import { SampleRegion, averageLuminance, sampleImage } from "./imageAnalysis";
+
+export const DEFAULT_WIDGETS: Record<WidgetType, WidgetSettings> = {
+  [WidgetType.Clock]: { enabled: false, position: WidgetPosition.TopRight, opacity: 0.9, font: WidgetFont.Thin },
+  [WidgetType.Date]: { enabled: false, position: WidgetPosition.TopRight, opacity: 0.8, font: WidgetFont.Sans },
+  [WidgetType.Weather]: { enabled: false, position: WidgetPosition.TopLeft, opacity: 0.9, font: WidgetFont.Sans },
+  [WidgetType.Calendar]: { enabled: false, position: WidgetPosition.BottomRight, opacity: 0.9, font: WidgetFont.Sans },
+};
+
+export const getWidgetSettings = (config: Pick<AppConfig, 'widgets'>, widget: WidgetType): WidgetSettings => ({
+  ...DEFAULT_WIDGETS[widget],
+  ...config.widgets[widget],
+});
+
+export const updateWidget = (config: Pick<AppConfig, 'widgets'>, widget: WidgetType, changes: Partial<WidgetSettings>): AppConfig['widgets'] => ({
+  ...config.widgets,
+  [widget]: { ...getWidgetSettings(config, widget), ...changes },
+});
+
+export const WIDGET_FONT_CLASSES: Record<WidgetFont, string> = {
+  [WidgetFont.Sans]: 'font-sans',
+  [WidgetFont.Thin]: 'font-sans font-extralight',
+  [WidgetFont.Serif]: 'font-serif',
+  [WidgetFont.Mono]: 'font-mono',
+};
+
+// --- WEATHER ---
+
+export interface WeatherReport {
+  temperature: number;
+  unit: string; // e.g. "°C", shown right after the temperature
+  condition?: string;
+  high?: number;
+  low?: number;
+  location?: string;
+}
+
+const toNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value
+    : typeof value === 'string' && value.trim() && Number.isFinite(Number(value)) ? Number(value)
+    : undefined;
+
+const toText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * Reads the weather endpoint's JSON: `temperature` (or `temp`) is required,
+ * `unit`, `condition`, `high`, `low` and `location` are shown when present.
+ */
+export const parseWeather = (data: unknown): WeatherReport => {
+  if (typeof data !== 'object' || data === null) throw new Error('Weather data is not a JSON object');
+  const fields = data as Record<string, unknown>;
+  const temperature = toNumber(fields.temperature ?? fields.temp);
+  if (temperature === undefined) throw new Error('Weather data has no temperature');
+
+  return {
+    temperature,
+    unit: toText(fields.unit) ?? '°',
+    condition: toText(fields.condition),
+    high: toNumber(fields.high),
+    low: toNumber(fields.low),
+    location: toText(fields.location),
+  };
+};
+
+export const fetchWeather = async (url: string): Promise<WeatherReport> => {
+  const response = await fetch(url, { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`Weather not found (HTTP ${response.status})`);
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error('Weather data is not JSON');
+  }
+  return parseWeather(data);
+};
+
+// --- CONTRAST ---
+
+// Width of the copy the luminance is measured on; regions only need a rough average
+const SAMPLE_WIDTH = 48;
+// Above this (0 = black, 1 = white) text turns dark
+const LIGHT_BACKGROUND = 0.55;
+
+// Horizontal and vertical share of the picture each position covers
+const REGIONS: Record<WidgetPosition, SampleRegion> = {
+  [WidgetPosition.TopLeft]: { x: [0, 0.35], y: [0, 0.3] },
+  [WidgetPosition.TopCenter]: { x: [0.3, 0.7], y: [0, 0.3] },
+  [WidgetPosition.TopRight]: { x: [0.65, 1], y: [0, 0.3] },
+  [WidgetPosition.BottomLeft]: { x: [0, 0.35], y: [0.7, 1] },
+  [WidgetPosition.BottomCenter]: { x: [0.3, 0.7], y: [0.7, 1] },
+  [WidgetPosition.BottomRight]: { x: [0.65, 1], y: [0.7, 1] },
+};
+
+export type RegionLuminance = Record<WidgetPosition, number>;
+
+/**
+ * Average luminance of the picture under each widget position, with the image cropped
+ * to cover a screen of `aspect` (close enough for every fit mode at a glance).
+ * Resolves to null when the image's pixels can't be read.
+ */
+export const measureRegionLuminance = async (url: string, aspect: number): Promise<RegionLuminance | null> => {
+  const sample = await sampleImage(url, SAMPLE_WIDTH, aspect);
+  if (!sample) return null;
+  return Object.fromEntries(
+    Object.values(WidgetPosition).map(position => [position, averageLuminance(sample, REGIONS[position])])
+  ) as RegionLuminance;
+};
+
+/**
+ * Text color for a widget over a background of the given luminance, as dimmed by the
+ * brightness setting. Unknown backgrounds get light text with a heavy shadow.
+ */
+export const getContrastStyle = (luminance: number | null, brightness: number): CSSProperties => {
+  if (luminance !== null && luminance * brightness > LIGHT_BACKGROUND) {
+    return { color: '#111', textShadow: '0 0 12px rgba(255, 255, 255, 0.5)' };
+  }
+  return {
+    color: '#fff',
+    textShadow: luminance === null ? '0 1px 3px rgba(0, 0, 0, 0.9), 0 0 16px rgba(0, 0, 0, 0.6)' : '0 1px 3px rgba(0, 0, 0, 0.6)',
+  };
+};
@@ -1,3 +1,4 @@
+// Built-in stock themes; each one seeds a default playlist
 export enum Genre {
   Nature = 'Nature',
   Urban = 'Urban Architecture',
@@ -7,6 +8,7 @@ export enum Genre {
   Animals = 'Wildlife'
 }
 
+// Built-in frames; the value doubles as the frame id
 export enum FrameStyle {
   None = 'None',
   ModernBlack = 'Modern Black',
@@ -14,6 +16,7 @@ export enum FrameStyle {
   Wood = 'Classic Wood'
 }
 
+// Built-in filters; the value doubles as the filter id
 export enum FilterPreset {
   Original = 'Original',
   Noir = 'Noir',
@@ -24,18 +27,368 @@ export enum FilterPreset {
   Fade = 'Fade'
 }
 
+export enum TransitionEffect {
+  None = 'None',
+  Crossfade = 'Crossfade',
+  KenBurns = 'Ken Burns',
+  Slide = 'Slide',
+  ZoomDissolve = 'Zoom Dissolve'
+}
+
+export enum TransitionEasing {
+  Linear = 'Linear',
+  EaseInOut = 'Ease In-Out',
+  EaseOut = 'Ease Out',
+  Cinematic = 'Cinematic'
+}
+
+export enum LayoutMode {
+  Single = 'Single',
+  Diptych = 'Diptych',
+  Triptych = 'Triptych',
+  GalleryWall = 'Gallery Wall'
+}
+
+export enum Orientation {
+  Auto = 'Auto', // follows the device
+  Landscape = 'Landscape',
+  Portrait = 'Portrait',
+  Rotate90 = 'Rotated 90°', // display mounted sideways, turned clockwise
+  Rotate180 = 'Rotated 180°',
+  Rotate270 = 'Rotated 270°'
+}
+
+export enum CaptionPosition {
+  BottomLeft = 'Bottom Left',
+  BottomRight = 'Bottom Right',
+  TopLeft = 'Top Left',
+  TopRight = 'Top Right'
+}
+
+// Which of the images loaded ahead plays next, see services/sequencing.ts
+export enum SequenceMode {
+  Random = 'Random',
+  ColorFlow = 'Smooth Color Flow',
+  RoomLighting = 'Match Room Lighting'
+}
+
+export enum WidgetType {
+  Clock = 'Clock',
+  Date = 'Date',
+  Weather = 'Weather',
+  Calendar = 'Calendar'
+}
+
+export enum WidgetPosition {
+  TopLeft = 'Top Left',
+  TopCenter = 'Top Center',
+  TopRight = 'Top Right',
+  BottomLeft = 'Bottom Left',
+  BottomCenter = 'Bottom Center',
+  BottomRight = 'Bottom Right'
+}
+
+export enum WidgetFont {
+  Sans = 'Sans',
+  Thin = 'Thin',
+  Serif = 'Serif',
+  Mono = 'Mono'
+}
+
+export interface WidgetSettings {
+  enabled: boolean;
+  position: WidgetPosition;
+  opacity: number; // 0.2 to 1.0
+  font: WidgetFont;
+}
+
+export enum SyncRole {
+  Off = 'Off',
+  Leader = 'Leader', // picks the images and timing for the group
+  Follower = 'Follower'
+}
+
+export enum SyncMode {
+  Mirror = 'Mirror', // every frame shows the same image
+  Panorama = 'Panorama', // one wide image spread across the frames
+  Sequence = 'Sequence' // each frame shows its own image, all changing together
+}
+
+export enum InputAction {
+  Next = 'Next Image',
+  Previous = 'Previous Image',
+  PlayPause = 'Play / Pause',
+  BrightnessUp = 'Brightness Up',
+  BrightnessDown = 'Brightness Down',
+  OpenMenu = 'Open Menu',
+  CycleFilter = 'Next Filter',
+  ToggleCaption = 'Show / Hide Caption',
+  RateImage = 'Rate Image', // opens the like / dislike / ban prompt
+  Like = 'Like Image',
+  Dislike = 'Dislike Image',
+  Ban = 'Never Show Again'
+}
+
+export enum Rating {
+  Like = 'Like',
+  Dislike = 'Dislike',
+  Ban = 'Ban'
+}
+
+export interface RatedImage {
+  image: ArtImage;
+  rating: Rating;
+  ratedAt: number; // ms timestamp; the newer rating wins when imports overlap
+  playlistId?: string; // where it was rated; liked images come back in that playlist
+}
+
+export enum GestureType {
+  Tap = 'Tap',
+  DoubleTap = 'Double Tap',
+  LongPress = 'Long Press',
+  SwipeLeft = 'Swipe Left',
+  SwipeRight = 'Swipe Right',
+  SwipeUp = 'Swipe Up',
+  SwipeDown = 'Swipe Down',
+  VerticalDrag = 'Drag Up / Down', // continuous, follows the finger while it moves
+  PinchIn = 'Pinch In',
+  PinchOut = 'Pinch Out'
+}
+
+// Thirds of the screen a gesture starts in (pinches: where the fingers meet)
+export enum GestureZone {
+  Left = 'Left',
+  Center = 'Center',
+  Right = 'Right'
+}
+
+// Gesture-only actions; gestures can also trigger any InputAction
+// What passers-by may still do while kiosk mode is locked, see services/kiosk.ts
+export enum KioskPermission {
+  Navigate = 'Next & Previous',
+  PlayPause = 'Play / Pause',
+  Brightness = 'Brightness',
+  Filters = 'Filters',
+  Caption = 'Caption',
+  Rating = 'Rating',
+  Settings = 'Settings Menu'
+}
+
+export enum GestureAction {
+  None = 'Nothing',
+  ToggleMenu = 'Show / Hide Menu',
+  SlideBrightness = 'Set Brightness' // drag only: top of the screen is brightest
+}
+
+export type GestureTarget = InputAction | GestureAction;
+
+export type GestureBindings = Record<GestureZone, Partial<Record<GestureType, GestureTarget>>>;
+
+export enum FitMode {
+  Auto = 'Auto', // cover when the aspect ratio is close to the screen's, otherwise contain
+  Cover = 'Cover',
+  Contain = 'Contain', // whole image over a blurred copy of itself
+  FocalPoint = 'Focal Point' // cover, cropped around a saved point
+}
+
+export interface FocalPoint {
+  x: number; // 0..1 from the left
+  y: number; // 0..1 from the top
+}
+
+// Per-image display settings, keyed by image (see getImageKey)
+export interface ImageDisplaySettings {
+  fitMode?: FitMode;
+  focalPoint?: FocalPoint;
+}
+
+export type ImageSourceId = 'picsum' | 'local' | 'manifest' | 'gemini' | 'url';
+
+export type PlaylistOrdering = 'sequential' | 'shuffle' | 'weighted';
+
+export interface PlaylistItem {
+  id: string;
+  source: ImageSourceId;
+  // Source specific: stock theme, library tag/album, manifest URL, Gemini prompt or image URL
+  query: string;
+  weight: number; // relative share in 'weighted' ordering
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  items: PlaylistItem[];
+  ordering: PlaylistOrdering;
+  interval?: number; // seconds, overrides AppConfig.interval while active
+  favoritesOnly?: boolean; // plays liked images instead of its items
+}
+
+export enum FrameMaterial {
+  Flat = 'Flat',
+  Wood = 'Wood',
+  Metal = 'Metal'
+}
+
+export interface FrameDefinition {
+  id: string;
+  name: string;
+  material: FrameMaterial;
+  color: string; // frame base color, hex
+  width: number; // px
+  matteColor: string; // hex
+  matteWidth: number; // px, 0 = no matte
+  bevel: number; // px, light cut edge around the image opening
+  shadowDepth: number; // 0..1, shadow the frame casts onto the matte
+}
+
+// Each value ranges -1..1 with 0 as neutral, except vignette and grain (0..1)
+export interface ImageAdjustments {
+  exposure: number;
+  contrast: number;
+  saturation: number;
+  temperature: number; // negative = cool, positive = warm
+  tint: number; // negative = green, positive = magenta
+  vignette: number;
+  grain: number;
+}
+
+export interface FilterDefinition {
+  id: string;
+  name: string;
+  adjustments: ImageAdjustments;
+}
+
+// Settings a schedule rule can override while it is active
+export interface ScheduleOverrides {
+  playlistId?: string;
+  filterId?: string;
+  brightness?: number;
+  isSlideshow?: boolean;
+  sleep?: boolean; // black screen, wake lock released
+}
+
+export interface ScheduleRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  start: string; // "HH:MM"
+  end: string; // "HH:MM", an end before the start wraps past midnight
+  days: number[]; // weekdays the window starts on, 0 = Sunday
+  overrides: ScheduleOverrides;
+}
+
 export interface AppConfig {
-  genre: Genre;
+  playlistId: string; // active playlist
+  playlists: Playlist[];
   interval: number; // seconds
   isSlideshow: boolean;
-  frameStyle: FrameStyle;
-  filterPreset: FilterPreset;
-  frameWidth: number; // px - border width for frames
+  frameId: string; // a FrameStyle or the id of a custom frame
+  customFrames: FrameDefinition[];
+  filterId: string; // a FilterPreset or the id of a custom filter
+  customFilters: FilterDefinition[];
   brightness: number; // 0.0 to 2.0 (default 1.0)
+  historySize: number; // max images kept for back/forward navigation
+  prefetchCount: number; // decoded images kept ready ahead of the current one
+  transitionEffect: TransitionEffect;
+  transitionDuration: number; // ms
+  transitionEasing: TransitionEasing;
+  fitMode: FitMode;
+  layout: LayoutMode;
+  sequenceMode: SequenceMode;
+  dynamicMatte: boolean; // matte color taken from the image instead of the frame's
+  orientation: Orientation;
+  scheduleEnabled: boolean;
+  schedule: ScheduleRule[]; // later rules win when windows overlap
+  remoteEnabled: boolean;
+  remoteCode: string; // six-digit pairing code
+  relayUrl: string; // WebSocket relay reaching other devices, '' = same browser only
+  syncRole: SyncRole;
+  syncGroup: string; // frames with the same group name play together
+  syncMode: SyncMode; // set on the leader, followers take it from there
+  syncPanels: number; // frames in the group, for panorama and sequence
+  syncPosition: number; // this frame's place in the group, 0 = leftmost
+  keyBindings: Partial<Record<InputAction, string[]>>; // input tokens per action, see services/input.ts
+  gestureBindings: Partial<GestureBindings>; // changed zones only, see services/gestures.ts
+  captionEnabled: boolean; // show the caption whenever the image changes
+  captionPosition: CaptionPosition;
+  captionHideAfter: number; // seconds, 0 = stays visible
+  captionQrCode: boolean; // QR code linking to the image's source page
+  widgets: Partial<Record<WidgetType, WidgetSettings>>; // changed widgets only, see services/widgets.ts
+  weatherUrl: string; // JSON endpoint for the weather widget
+  calendarUrl: string; // .ics address for the calendar widget, '' = the imported file
+  calendarFileName: string; // imported .ics file, kept apart from the settings (see services/calendar.ts)
+  pixelShift: number; // px the picture drifts in each direction, 0 = off
+  maxDwell: number; // minutes before the image changes even with the slideshow paused, 0 = no limit
+  blackRefreshInterval: number; // hours between full-black refreshes, 0 = off
+  blackRefreshDuration: number; // seconds
+  luminanceCap: number; // highest average light level of the image, 0.2 to 1.0 (1.0 = no cap)
+  kioskEnabled: boolean; // locks the frame against passers-by
+  kioskPin: string; // digits asked for after the unlock sequence, '' = the sequence alone unlocks
+  kioskAllowed: KioskPermission[];
+  kioskRevertAfter: number; // minutes without input before the locked settings return, 0 = never
+}
+
+// Named set of settings that can be moved between frames, see services/profiles.ts
+export interface Profile {
+  id: string;
+  name: string;
+  settings: Partial<AppConfig>; // without the fields that belong to one device
+  savedAt: number; // ms timestamp
+}
+
+// Whatever a provider knows about an image; every field is optional
+export interface ImageMetadata {
+  title?: string;
+  author?: string;
+  sourceUrl?: string; // web page about the image, linked from the caption
+  capturedAt?: string; // ISO 8601 date, or just a year for artworks
+  camera?: string;
+  exposure?: string; // e.g. "1/250 s · f/8 · ISO 100 · 35 mm"
+}
+
+// Color facts about an image, measured once it is loaded (see services/imageAnalysis.ts)
+export interface ImageAnalysis {
+  palette: string[]; // dominant colors as hex, most common first
+  luminance: number; // average, 0 (black) to 1 (white)
 }
 
 export interface ArtImage {
   url: string;
   id: string;
-  source: 'gemini' | 'stock';
-}
\ No newline at end of file
+  source: ImageSourceId;
+  remoteUrl?: string; // original address when url points at a cached copy
+  width?: number; // natural size, known once loaded
+  height?: number;
+  metadata?: ImageMetadata;
+  analysis?: ImageAnalysis; // missing when the pixels couldn't be read
+}
+
+export interface ImageRequest {
+  theme: string; // playlist name, used by fallbacks that don't understand the query
+  query: string; // PlaylistItem.query, empty when a provider runs as a fallback
+  width: number;
+  height: number;
+  sequence?: number; // n-th image to pick in sequential playback, random when undefined
+  weightOf?: (id: string) => number; // relative chance of an image by provider id, 0 = never
+}
+
+export interface ImageProvider {
+  id: ImageSourceId;
+  label: string;
+  fallback: ImageSourceId | null; // provider to try when this one fails
+  timeoutMs: number;
+  isAvailable: () => boolean;
+  fetchImage: (request: ImageRequest) => Promise<ArtImage | null>;
+}
+export interface LibraryImage {
+  id: string;
+  name: string;
+  blob: Blob;
+  thumbnail: Blob;
+  tags: string[]; // Genre values or custom album names
+  width: number;
+  height: number;
+  addedAt: number;
+  metadata?: ImageMetadata; // read from EXIF on import; missing on images imported before that
+  analysis?: ImageAnalysis; // stored the first time the image is shown
+}